@@ -3,7 +3,9 @@
  * 
  * @description Lightweight AI provider abstraction layer for edge deployment.
  * Provides a unified interface for multiple AI providers including Azure OpenAI,
- * Azure AI Foundry, OpenAI, and Cloudflare Workers AI.
+ * Azure AI Foundry, OpenAI, Anthropic, AWS Bedrock, Cloudflare Workers AI, Mistral,
+ * Groq, DeepSeek, OpenRouter and any OpenAI-compatible endpoint, with optional
+ * failover between them via FallbackProvider.
  * 
  * @example
  * ```typescript
@@ -27,17 +29,27 @@ export type {
   FinishReason,
   Message,
   ContentPart,
+  Tool,
+  ToolChoice,
+  ToolCall,
   ChatCompletionRequest,
   ChatCompletionResponse,
+  ChatOptions,
   ChatChoice,
   Usage,
+  RetryConfig,
   ProviderConfig,
   AzureConfig,
   AzureFoundryConfig,
   OpenAIConfig,
+  AnthropicConfig,
+  BedrockConfig,
   CloudflareConfig,
   VertexConfig,
   CustomConfig,
+  ModelQuirks,
+  PresetType,
+  PresetConfig,
   AnyProviderConfig,
 } from './types';
 
@@ -51,37 +63,68 @@ export {
   AzureProvider,
   AzureFoundryProvider,
   OpenAIProvider,
+  AnthropicProvider,
+  BedrockProvider,
   CloudflareProvider,
   VertexProvider,
+  CustomProvider,
+  PresetProvider,
+  PROVIDER_PRESETS,
+  FallbackProvider,
+  LoadBalancedProvider,
+  parseImageUrl,
+  onStreamEnd,
 } from './providers';
+export type { ImageLimits, ImageSource } from './providers';
+export type { ProviderPreset, FallbackTarget, FallbackEvent, FallbackProviderOptions } from './providers';
+export type { LoadBalancerTarget, LoadBalancingStrategy, LoadBalancerEvent, LoadBalancerOptions } from './providers';
 
-// Factory function
-import type { AnyProviderConfig } from './types';
-import type { AIProvider } from './providers';
-import { AzureProvider } from './providers/azure';
-import { AzureFoundryProvider } from './providers/azure-foundry';
-import { OpenAIProvider } from './providers/openai';
-import { CloudflareProvider } from './providers/cloudflare';
-import { VertexProvider } from './providers/vertex';
+// Anthropic Messages API translation (shared by the Anthropic, Foundry and Vertex paths)
+export {
+  ANTHROPIC_IMAGE_LIMITS,
+  claudeSupportsVision,
+  toAnthropicMessages,
+  toAnthropicRequest,
+  fromAnthropicResponse,
+  mapAnthropicStopReason,
+  transformAnthropicStream,
+} from './providers';
+export type { AnthropicContentBlock, AnthropicMessage, AnthropicResponse, AnthropicRequestOptions } from './providers';
 
-/**
- * Create a provider instance from configuration
- */
-export function createProvider(config: AnyProviderConfig): AIProvider {
-  switch (config.type) {
-    case 'azure':
-      return new AzureProvider(config);
-    case 'azure-foundry':
-      return new AzureFoundryProvider(config);
-    case 'openai':
-      return new OpenAIProvider(config);
-    case 'cloudflare':
-      return new CloudflareProvider(config);
-    case 'vertex':
-      return new VertexProvider(config);
-    case 'custom':
-      throw new Error('Custom provider requires manual implementation');
-    default:
-      throw new Error(`Unknown provider type: ${(config as AnyProviderConfig).type}`);
-  }
-}
+// Gemini API translation (shared by the Vertex provider and the worker's Gemini routes)
+export {
+  GEMINI_IMAGE_LIMITS,
+  geminiSupportsVision,
+  toGeminiMessages,
+  toGeminiRequest,
+  fromGeminiResponse,
+  mapGeminiFinishReason,
+  transformGeminiStream,
+} from './providers';
+export type { GeminiPart, GeminiMessage, GeminiResponse, GeminiRequestOptions } from './providers';
+
+// Replay a finished completion as an SSE stream
+export { completionToStream } from './providers';
+
+// AWS request signing (used by the Bedrock provider)
+export { signAwsRequest } from './providers';
+export type { AwsCredentials, SignableRequest } from './providers';
+
+// Provider registry and factory
+export {
+  createProvider,
+  registerProvider,
+  unregisterProvider,
+  getProviderRegistration,
+  listProviders,
+  validateProviderConfig,
+} from './registry';
+export type {
+  RegisteredProviderConfig,
+  ConfigField,
+  ProviderConfigSchema,
+  ProviderCapabilities,
+  ProviderFactory,
+  ProviderRegistrationOptions,
+  ProviderRegistration,
+} from './registry';
@@ -0,0 +1,399 @@
+/**
+ * Anthropic Messages API translation
+ *
+ * @description Conversion between the OpenAI chat format and the Anthropic Messages API,
+ * shared by every backend that serves Claude (Anthropic API, Azure AI Foundry, Vertex AI)
+ * @see https://docs.anthropic.com/en/api/messages
+ */
+
+import type { ImageLimits, ImageSource } from './base';
+import type { ChatCompletionRequest, ChatCompletionResponse, ContentPart, FinishReason, Message, ToolCall } from '../types';
+
+/** Anthropic content block */
+export interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  /** tool_use fields */
+  id?: string;
+  name?: string;
+  input?: unknown;
+  /** tool_result fields */
+  tool_use_id?: string;
+  content?: string;
+  /** image fields */
+  source?: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+}
+
+/** Anthropic message format */
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/** Anthropic API response */
+export interface AnthropicResponse {
+  id?: string;
+  type?: string;
+  role?: string;
+  model?: string;
+  content?: AnthropicContentBlock[];
+  stop_reason?: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/** Anthropic image input limits */
+export const ANTHROPIC_IMAGE_LIMITS: ImageLimits = {
+  maxBytes: 5 * 1024 * 1024,
+  mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+};
+
+export interface AnthropicRequestOptions {
+  /** Validate and parse an image URL (see ANTHROPIC_IMAGE_LIMITS); throws for rejected images */
+  parseImage: (url: string) => ImageSource;
+  /** Sets the `stream` field when given */
+  stream?: boolean;
+  /** max_tokens when the request does not set one (Anthropic requires it; default: 4096) */
+  defaultMaxTokens?: number;
+}
+
+/**
+ * Check if a Claude model accepts image input (Claude 3 and later)
+ */
+export function claudeSupportsVision(model: string): boolean {
+  return !/^claude-(2|instant)/i.test(model);
+}
+
+/**
+ * Flatten message content to plain text
+ */
+function contentToText(content: Message['content']): string {
+  if (content === null || content === undefined) return '';
+  if (typeof content === 'string') return content;
+  return content.map(p => p.text || '').join('');
+}
+
+/**
+ * Parse JSON tool arguments into the object Anthropic expects, tolerating malformed input
+ */
+function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = args ? JSON.parse(args) : {};
+    return parsed && typeof parsed === 'object' ? parsed : { value: parsed };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convert an OpenAI content part to an Anthropic text or image block
+ */
+function toAnthropicBlock(part: ContentPart, parseImage: AnthropicRequestOptions['parseImage']): AnthropicContentBlock {
+  if (part.type === 'image_url' && part.image_url) {
+    const image = parseImage(part.image_url.url);
+    return {
+      type: 'image',
+      source: image.kind === 'base64'
+        ? { type: 'base64', media_type: image.mediaType, data: image.data }
+        : { type: 'url', url: image.url },
+    };
+  }
+  return { type: 'text', text: part.text || '' };
+}
+
+/**
+ * Convert OpenAI messages to Anthropic format
+ *
+ * System messages are dropped (see toAnthropicRequest). Assistant tool calls become
+ * `tool_use` blocks and `tool` messages become `tool_result` blocks; consecutive tool
+ * results are merged into a single user turn as Anthropic expects.
+ */
+export function toAnthropicMessages(messages: Message[], parseImage: AnthropicRequestOptions['parseImage']): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+
+    if (m.role === 'tool') {
+      const block: AnthropicContentBlock = {
+        type: 'tool_result',
+        tool_use_id: m.tool_call_id || '',
+        content: contentToText(m.content),
+      };
+      const last = result[result.length - 1];
+      if (last && last.role === 'user' && Array.isArray(last.content) && last.content.every(b => b.type === 'tool_result')) {
+        last.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      const blocks: AnthropicContentBlock[] = [];
+      const text = contentToText(m.content);
+      if (text) blocks.push({ type: 'text', text });
+      for (const call of m.tool_calls) {
+        blocks.push({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: parseToolArguments(call.function.arguments),
+        });
+      }
+      result.push({ role: 'assistant', content: blocks });
+      continue;
+    }
+
+    result.push({
+      role: m.role === 'user' ? 'user' : 'assistant',
+      content: Array.isArray(m.content) ? m.content.map(p => toAnthropicBlock(p, parseImage)) : m.content ?? '',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Convert OpenAI tool_choice to Anthropic format
+ */
+function toAnthropicToolChoice(request: ChatCompletionRequest): Record<string, unknown> | undefined {
+  const choice = request.tool_choice;
+  let result: Record<string, unknown> | undefined;
+
+  if (choice === 'none') result = { type: 'none' };
+  else if (choice === 'required') result = { type: 'any' };
+  else if (typeof choice === 'object') result = { type: 'tool', name: choice.function.name };
+  else if (choice === 'auto' || request.parallel_tool_calls === false) result = { type: 'auto' };
+
+  if (result && request.parallel_tool_calls === false && result.type !== 'none') {
+    result.disable_parallel_tool_use = true;
+  }
+  return result;
+}
+
+/**
+ * Build an Anthropic Messages request body (without `model`, which backends place differently)
+ */
+export function toAnthropicRequest(request: ChatCompletionRequest, options: AnthropicRequestOptions): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    messages: toAnthropicMessages(request.messages, options.parseImage),
+    max_tokens: request.max_tokens || options.defaultMaxTokens || 4096,
+  };
+  if (options.stream !== undefined) body.stream = options.stream;
+
+  const systemMsg = request.messages.find(m => m.role === 'system');
+  if (systemMsg) body.system = contentToText(systemMsg.content);
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  if (request.top_p !== undefined) body.top_p = request.top_p;
+  if (request.tools?.length) {
+    body.tools = request.tools.map(t => ({
+      name: t.function.name,
+      description: t.function.description,
+      input_schema: t.function.parameters || { type: 'object', properties: {} },
+    }));
+    const toolChoice = toAnthropicToolChoice(request);
+    if (toolChoice) body.tool_choice = toolChoice;
+  }
+
+  return body;
+}
+
+/**
+ * Map Anthropic stop_reason to OpenAI finish_reason
+ */
+export function mapAnthropicStopReason(stopReason: string | undefined): FinishReason {
+  switch (stopReason) {
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    default:
+      // end_turn, stop_sequence
+      return 'stop';
+  }
+}
+
+function generateId(): string {
+  return `chatcmpl-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function timestamp(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Convert an Anthropic response to OpenAI format
+ * @param model - Reported when the response does not name its model
+ */
+export function fromAnthropicResponse(response: AnthropicResponse, model: string): ChatCompletionResponse {
+  const blocks = response.content || [];
+  const text = blocks.filter(b => b.type === 'text').map(b => b.text || '').join('');
+  const toolCalls: ToolCall[] = blocks
+    .filter(b => b.type === 'tool_use')
+    .map(b => ({
+      id: b.id || '',
+      type: 'function',
+      function: {
+        name: b.name || '',
+        arguments: JSON.stringify(b.input ?? {}),
+      },
+    }));
+
+  return {
+    id: response.id || generateId(),
+    object: 'chat.completion',
+    created: timestamp(),
+    model: response.model || model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: toolCalls.length && !text ? null : text,
+          ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: mapAnthropicStopReason(response.stop_reason),
+      },
+    ],
+    usage: response.usage ? {
+      prompt_tokens: response.usage.input_tokens || 0,
+      completion_tokens: response.usage.output_tokens || 0,
+      total_tokens: (response.usage.input_tokens || 0) + (response.usage.output_tokens || 0),
+    } : undefined,
+  };
+}
+
+/**
+ * Transform an Anthropic SSE stream to OpenAI SSE format
+ *
+ * Text deltas become `delta.content`; `tool_use` blocks become `delta.tool_calls`
+ * entries (id and name first, then `input_json_delta` fragments as arguments).
+ * With `includeUsage`, token counts from `message_start` / `message_delta` are
+ * emitted as a final OpenAI usage chunk. Cancelling the result stops reading upstream.
+ */
+export function transformAnthropicStream(anthropicStream: ReadableStream, model: string, includeUsage: boolean): ReadableStream {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const id = generateId();
+  let buffer = '';
+  let stopReason = 'end_turn';
+  let inputTokens = 0;
+  let outputTokens = 0;
+  // Anthropic content block index -> OpenAI tool call index
+  const toolIndexes = new Map<number, number>();
+
+  const emit = (controller: ReadableStreamDefaultController, delta: Record<string, unknown>, finishReason: FinishReason) => {
+    const chunk = {
+      id,
+      object: 'chat.completion.chunk',
+      created: timestamp(),
+      model,
+      choices: [{
+        index: 0,
+        delta,
+        finish_reason: finishReason,
+      }],
+    };
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+  };
+
+  const reader = anthropicStream.getReader();
+
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) {
+            if (includeUsage) {
+              const usageChunk = {
+                id,
+                object: 'chat.completion.chunk',
+                created: timestamp(),
+                model,
+                choices: [],
+                usage: {
+                  prompt_tokens: inputTokens,
+                  completion_tokens: outputTokens,
+                  total_tokens: inputTokens + outputTokens,
+                },
+              };
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(usageChunk)}\n\n`));
+            }
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+            break;
+          }
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            if (!line.startsWith('data: ')) continue;
+            const data = line.slice(6);
+            if (data === '[DONE]') continue;
+
+            try {
+              const event = JSON.parse(data);
+
+              // Start of a tool_use block: announce the tool call
+              if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+                const toolIndex = toolIndexes.size;
+                toolIndexes.set(event.index, toolIndex);
+                emit(controller, {
+                  tool_calls: [{
+                    index: toolIndex,
+                    id: event.content_block.id,
+                    type: 'function',
+                    function: { name: event.content_block.name, arguments: '' },
+                  }],
+                }, null);
+              }
+
+              if (event.type === 'content_block_delta' && event.delta?.text) {
+                emit(controller, { content: event.delta.text }, null);
+              }
+
+              // Tool argument fragments
+              if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+                const toolIndex = toolIndexes.get(event.index);
+                if (toolIndex !== undefined && event.delta.partial_json) {
+                  emit(controller, {
+                    tool_calls: [{ index: toolIndex, function: { arguments: event.delta.partial_json } }],
+                  }, null);
+                }
+              }
+
+              if (event.type === 'message_start' && event.message?.usage) {
+                inputTokens = event.message.usage.input_tokens || 0;
+                outputTokens = event.message.usage.output_tokens || 0;
+              }
+
+              if (event.type === 'message_delta') {
+                if (event.delta?.stop_reason) stopReason = event.delta.stop_reason;
+                // output_tokens in message_delta is cumulative
+                if (event.usage?.output_tokens !== undefined) outputTokens = event.usage.output_tokens;
+              }
+
+              if (event.type === 'message_stop') {
+                emit(controller, {}, mapAnthropicStopReason(stopReason));
+              }
+            } catch {
+              // Skip invalid JSON
+            }
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    // Consumer went away (e.g. client disconnected): stop reading upstream
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
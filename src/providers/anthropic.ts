@@ -0,0 +1,103 @@
+/**
+ * Anthropic Provider
+ *
+ * @description Provider for the Anthropic API (Claude models)
+ * @see https://docs.anthropic.com/en/api/messages
+ */
+
+import { BaseProvider } from './base';
+import {
+  ANTHROPIC_IMAGE_LIMITS,
+  claudeSupportsVision,
+  fromAnthropicResponse,
+  toAnthropicRequest,
+  transformAnthropicStream,
+  type AnthropicResponse,
+} from './anthropic-format';
+import type { AnthropicConfig, ChatCompletionRequest, ChatCompletionResponse, ChatOptions } from '../types';
+import { AIGatewayErrorCode } from '../types';
+
+/** Default retry statuses plus 529, which Anthropic returns when overloaded */
+const ANTHROPIC_RETRY_STATUS = [408, 429, 500, 502, 503, 504, 529];
+
+export class AnthropicProvider extends BaseProvider {
+  readonly name = 'anthropic';
+  readonly supportsStreaming = true;
+
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly defaultModel: string;
+  private readonly maxTokens?: number;
+
+  constructor(config: AnthropicConfig) {
+    super({ ...config, retry: { ...config.retry, retryOnStatus: config.retry?.retryOnStatus ?? ANTHROPIC_RETRY_STATUS } });
+
+    if (!config.apiKey) {
+      throw this.createError('Anthropic API key is required', 400, null, AIGatewayErrorCode.CONFIG_ERROR);
+    }
+
+    this.url = `${(config.baseUrl || 'https://api.anthropic.com').replace(/\/$/, '')}/v1/messages`;
+    this.defaultModel = config.model || 'claude-sonnet-4-5';
+    this.maxTokens = config.maxTokens;
+
+    this.headers = {
+      'Content-Type': 'application/json',
+      'x-api-key': config.apiKey,
+      'anthropic-version': config.version || '2023-06-01',
+    };
+    if (config.beta?.length) {
+      this.headers['anthropic-beta'] = config.beta.join(',');
+    }
+  }
+
+  /**
+   * Build request body
+   */
+  private buildRequestBody(request: ChatCompletionRequest, model: string, stream: boolean): string {
+    if (!claudeSupportsVision(model) && this.hasImageContent(request.messages)) {
+      throw this.createError(`Model '${model}' does not support image input`, 400, null, AIGatewayErrorCode.INVALID_REQUEST);
+    }
+
+    return JSON.stringify({
+      model,
+      ...toAnthropicRequest(request, {
+        parseImage: url => this.parseImageUrl(url, ANTHROPIC_IMAGE_LIMITS),
+        stream,
+        defaultMaxTokens: this.maxTokens,
+      }),
+    });
+  }
+
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
+    const model = request.model || this.defaultModel;
+
+    const response = await this.fetchWithRetry(this.url, {
+      method: 'POST',
+      headers: this.headers,
+      body: this.buildRequestBody(request, model, false),
+    }, 'Anthropic error', { signal: options.signal, timeout: request.timeout });
+
+    const anthropicResponse = await response.json() as AnthropicResponse;
+    return fromAnthropicResponse(anthropicResponse, model);
+  }
+
+  /**
+   * Stream chat completions
+   */
+  async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ReadableStream> {
+    const model = request.model || this.defaultModel;
+
+    const response = await this.fetchWithRetry(this.url, {
+      method: 'POST',
+      headers: this.headers,
+      body: this.buildRequestBody(request, model, true),
+    }, 'Anthropic error', { signal: options.signal, timeout: request.timeout, stream: true });
+
+    if (!response.body) {
+      throw this.createError('No response body for streaming', 500, null, AIGatewayErrorCode.PROVIDER_ERROR);
+    }
+
+    // Transform Anthropic SSE to OpenAI SSE format
+    return transformAnthropicStream(response.body, model, request.stream_options?.include_usage === true);
+  }
+}
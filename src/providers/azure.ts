@@ -6,7 +6,7 @@
  */
 
 import { BaseProvider } from './base';
-import type { AzureConfig, ChatCompletionRequest, ChatCompletionResponse } from '../types';
+import type { AzureConfig, ChatCompletionRequest, ChatCompletionResponse, ChatOptions } from '../types';
 import { AIGatewayErrorCode } from '../types';
 
 export class AzureProvider extends BaseProvider {
@@ -44,38 +44,45 @@ export class AzureProvider extends BaseProvider {
     return `${this.endpoint}/openai/deployments/${this.deployment}/chat/completions?api-version=${this.apiVersion}`;
   }
 
+  /**
+   * `stream_options` is only accepted from API version 2024-09-01-preview on; older
+   * versions reject it (and never report usage in streams)
+   */
+  private supportsStreamOptions(): boolean {
+    return this.apiVersion.slice(0, 10) >= '2024-09-01';
+  }
+
   /**
    * Build request body, filtering out undefined values
    */
   private buildRequestBody(request: ChatCompletionRequest, stream: boolean): string {
     const body: Record<string, unknown> = {
-      messages: request.messages,
+      messages: this.toUpstreamMessages(request.messages),
       stream,
     };
     
     if (request.max_tokens !== undefined) body.max_tokens = request.max_tokens;
     if (request.temperature !== undefined) body.temperature = request.temperature;
     if (request.top_p !== undefined) body.top_p = request.top_p;
+    if (request.tools?.length) body.tools = request.tools;
+    if (request.tool_choice !== undefined) body.tool_choice = request.tool_choice;
+    if (request.parallel_tool_calls !== undefined) body.parallel_tool_calls = request.parallel_tool_calls;
+    if (stream && request.stream_options && this.supportsStreamOptions()) body.stream_options = request.stream_options;
     
     return JSON.stringify(body);
   }
 
-  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
     const url = this.buildUrl();
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'api-key': this.apiKey,
       },
       body: this.buildRequestBody(request, false),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw this.createError(`Azure OpenAI error: ${errorText}`, response.status, errorText);
-    }
+    }, 'Azure OpenAI error', { signal: options.signal, timeout: request.timeout });
 
     return await response.json() as ChatCompletionResponse;
   }
@@ -83,22 +90,17 @@ export class AzureProvider extends BaseProvider {
   /**
    * Stream chat completions
    */
-  async chatStream(request: ChatCompletionRequest): Promise<ReadableStream> {
+  async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ReadableStream> {
     const url = this.buildUrl();
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'api-key': this.apiKey,
       },
       body: this.buildRequestBody(request, true),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw this.createError(`Azure OpenAI error: ${errorText}`, response.status, errorText);
-    }
+    }, 'Azure OpenAI error', { signal: options.signal, timeout: request.timeout, stream: true });
 
     if (!response.body) {
       throw this.createError('No response body for streaming', 500, null, AIGatewayErrorCode.PROVIDER_ERROR);
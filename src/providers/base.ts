@@ -5,9 +5,86 @@
  * All providers must implement the AIProvider interface.
  */
 
-import type { ChatCompletionRequest, ChatCompletionResponse, AnyProviderConfig, ProviderType } from '../types';
+import type { ChatCompletionRequest, ChatCompletionResponse, ChatOptions, AnyProviderConfig, Message, ProviderType, RetryConfig } from '../types';
 import { AIGatewayError, AIGatewayErrorCode } from '../types';
 
+/**
+ * A validated image reference extracted from an `image_url` content part
+ */
+export type ImageSource =
+  | { kind: 'base64'; mediaType: string; data: string }
+  | { kind: 'url'; mediaType: string; url: string };
+
+/**
+ * Constraints a backend places on image input
+ */
+export interface ImageLimits {
+  /** Maximum decoded size of an inline image in bytes */
+  maxBytes: number;
+  /** Accepted MIME types */
+  mimeTypes: string[];
+  /** Accepted remote URL schemes (default: http, https) */
+  schemes?: string[];
+}
+
+/** MIME types inferred from common image file extensions */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+/**
+ * Parse an image URL (data URL or remote URL) and validate it against backend limits.
+ * Remote URLs must name a known image type by their file extension.
+ * @throws {AIGatewayError} INVALID_REQUEST when the image is malformed, too large or of an unsupported type
+ */
+export function parseImageUrl(url: string, limits: ImageLimits): ImageSource {
+  const invalid = (message: string) => new AIGatewayError(message, { status: 400, code: AIGatewayErrorCode.INVALID_REQUEST });
+  const checkMime = (mediaType: string) => {
+    if (!limits.mimeTypes.includes(mediaType)) {
+      throw invalid(`Unsupported image type '${mediaType}' (supported: ${limits.mimeTypes.join(', ')})`);
+    }
+  };
+
+  if (url.startsWith('data:')) {
+    const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+    if (!match) throw invalid('Invalid image data URL: expected data:<mime>;base64,<data>');
+
+    const mediaType = match[1].toLowerCase();
+    const data = match[2].replace(/\s/g, '');
+    checkMime(mediaType);
+
+    const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+    const bytes = Math.floor(data.length * 3 / 4) - padding;
+    if (bytes > limits.maxBytes) {
+      throw invalid(`Image too large: ${bytes} bytes exceeds the ${limits.maxBytes} byte limit`);
+    }
+
+    return { kind: 'base64', mediaType, data };
+  }
+
+  const schemes = limits.schemes ?? ['http', 'https'];
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):\/\//i)?.[1].toLowerCase();
+  if (!scheme || !schemes.includes(scheme)) {
+    throw invalid(`Invalid image URL: must be a data URL or a ${schemes.join(', ')} URL`);
+  }
+
+  const ext = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  const mediaType = IMAGE_EXTENSIONS[ext];
+  if (!mediaType) {
+    const known = Object.keys(IMAGE_EXTENSIONS).filter(e => limits.mimeTypes.includes(IMAGE_EXTENSIONS[e]));
+    throw invalid(`Cannot determine the image type of '${url}': use a data URL or a URL ending in .${known.join(', .')}`);
+  }
+  checkMime(mediaType);
+
+  return { kind: 'url', mediaType, url };
+}
+
 /**
  * Common interface for all AI providers
  */
@@ -17,19 +94,21 @@ export interface AIProvider {
   
   /**
    * Send a chat completion request
-   * @param request - Chat completion request parameters
+   * @param request - Chat completion request parameters (`timeout` bounds the whole call)
+   * @param options - Per-call options such as an AbortSignal
    * @returns Chat completion response
-   * @throws {AIGatewayError} On provider errors
+   * @throws {AIGatewayError} On provider errors; NETWORK_ERROR with `isTimeout` on timeout
    */
-  chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+  chat(request: ChatCompletionRequest, options?: ChatOptions): Promise<ChatCompletionResponse>;
   
   /**
    * Send a streaming chat completion request
-   * @param request - Chat completion request parameters
+   * @param request - Chat completion request parameters (`timeout` bounds the wait for the stream to start)
+   * @param options - Per-call options; aborting the signal also cancels an active stream
    * @returns ReadableStream of SSE events
    * @throws {AIGatewayError} On provider errors or if streaming not supported
    */
-  chatStream?(request: ChatCompletionRequest): Promise<ReadableStream>;
+  chatStream?(request: ChatCompletionRequest, options?: ChatOptions): Promise<ReadableStream>;
   
   /**
    * Check if this provider supports streaming
@@ -37,6 +116,105 @@ export interface AIProvider {
   readonly supportsStreaming: boolean;
 }
 
+/**
+ * Options for a single upstream call
+ */
+export interface FetchOptions {
+  /** Caller's cancellation signal */
+  signal?: AbortSignal;
+  /** Deadline for the call in milliseconds, including retries */
+  timeout?: number;
+  /** Return the body as a live stream instead of buffering it */
+  stream?: boolean;
+}
+
+/** Default retry policy */
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Wrap a response body so `release` runs once the stream ends, errors or is cancelled
+ */
+export function onStreamEnd(body: ReadableStream<Uint8Array>, release: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (err) {
+        release();
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Merge a retry config over the defaults; fields left undefined keep their default
+ */
+function resolveRetryPolicy(retry: RetryConfig = {}): Required<RetryConfig> {
+  return {
+    maxAttempts: retry.maxAttempts ?? DEFAULT_RETRY.maxAttempts,
+    initialDelayMs: retry.initialDelayMs ?? DEFAULT_RETRY.initialDelayMs,
+    maxDelayMs: retry.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs,
+    retryOnStatus: retry.retryOnStatus ?? DEFAULT_RETRY.retryOnStatus,
+  };
+}
+
+/**
+ * Parse a rate-limit reset header into milliseconds
+ *
+ * Accepts plain seconds ("2", "0.5"), HTTP dates, and OpenAI-style
+ * durations ("1s", "6m0s", "120ms").
+ */
+function parseResetHeader(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed) * 1000;
+
+  const duration = trimmed.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+  if (duration && duration.slice(1).some(Boolean)) {
+    const [, h, m, sec, ms] = duration.map(v => parseFloat(v || '0'));
+    return ((h * 60 + m) * 60 + sec) * 1000 + ms;
+  }
+
+  const date = Date.parse(trimmed);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/**
+ * Read the server-requested wait time from a 429/503 response
+ */
+function getRetryAfterMs(headers: Headers): number | undefined {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) return Number(retryAfterMs);
+
+  const candidates = [
+    parseResetHeader(headers.get('retry-after')),
+    parseResetHeader(headers.get('x-ratelimit-reset-requests')),
+    parseResetHeader(headers.get('x-ratelimit-reset-tokens')),
+  ].filter((v): v is number => v !== undefined);
+
+  return candidates.length ? Math.max(...candidates) : undefined;
+}
+
 /**
  * Abstract base class for AI providers
  */
@@ -49,7 +227,141 @@ export abstract class BaseProvider implements AIProvider {
     this.config = config;
   }
 
-  abstract chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+  abstract chat(request: ChatCompletionRequest, options?: ChatOptions): Promise<ChatCompletionResponse>;
+
+  /**
+   * Send a request upstream, retrying transient failures
+   *
+   * Retries network errors and retryable statuses with jittered exponential
+   * backoff, waiting for `Retry-After` / `x-ratelimit-reset-*` on 429 and 503.
+   * Only the request itself is retried: once a successful response is returned
+   * (including a stream that has started), no further attempts are made.
+   *
+   * The timeout covers all attempts and, for non-streaming calls, reading the
+   * body; streams are only bounded until headers arrive. The caller's signal
+   * stays attached to a returned stream so aborting it stops the upstream read.
+   *
+   * @param errorLabel - Prefix for error messages, e.g. "OpenAI error"
+   * @throws {AIGatewayError} With `attempts` set when all attempts fail
+   */
+  protected async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    errorLabel: string,
+    options: FetchOptions = {}
+  ): Promise<Response> {
+    const policy = resolveRetryPolicy(this.config.retry);
+    const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts) || 1);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer: ReturnType<typeof setTimeout> | undefined = options.timeout
+      ? setTimeout(() => { timedOut = true; controller.abort(); }, options.timeout)
+      : undefined;
+    const onAbort = () => controller.abort();
+    const release = () => options.signal?.removeEventListener('abort', onAbort);
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let streaming = false;
+    let attempt = 1;
+    try {
+      for (; ; attempt++) {
+        let response: Response;
+        try {
+          response = await fetch(url, { ...init, signal: controller.signal });
+        } catch (err) {
+          if (controller.signal.aborted) throw this.abortError(errorLabel, timedOut, options.timeout, attempt);
+          const message = err instanceof Error ? err.message : String(err);
+          if (attempt >= maxAttempts) {
+            throw this.createError(`${errorLabel}: ${message}`, 502, err, AIGatewayErrorCode.NETWORK_ERROR, attempt);
+          }
+          await this.sleep(this.backoffDelay(attempt, policy), controller.signal);
+          continue;
+        }
+
+        if (response.ok) {
+          if (options.stream) {
+            if (!response.body) return response;
+            // The caller's signal keeps cancelling the upstream call until the stream is done
+            streaming = true;
+            return new Response(onStreamEnd(response.body, release), { status: response.status, headers: response.headers });
+          }
+          // Buffer the body so the timeout also covers reading it
+          const body = await response.text();
+          return new Response(body, { status: response.status, headers: response.headers });
+        }
+
+        const errorText = await response.text();
+        let delay: number | undefined;
+        if (attempt < maxAttempts && policy.retryOnStatus.includes(response.status)) {
+          const retryAfter = response.status === 429 || response.status === 503
+            ? getRetryAfterMs(response.headers)
+            : undefined;
+          // A server-requested wait beyond our cap is not worth blocking on
+          delay = retryAfter === undefined
+            ? this.backoffDelay(attempt, policy)
+            : retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+        }
+
+        if (delay === undefined) {
+          throw this.createError(`${errorLabel}: ${errorText}`, response.status, errorText, undefined, attempt);
+        }
+        await this.sleep(delay, controller.signal);
+      }
+    } catch (err) {
+      // Aborts while reading a body or backing off surface as DOMException/AbortError
+      if (controller.signal.aborted && !(err instanceof AIGatewayError)) {
+        throw this.abortError(errorLabel, timedOut, options.timeout, attempt);
+      }
+      throw err;
+    } finally {
+      if (timer !== undefined) clearTimeout(timer);
+      if (!streaming) release();
+    }
+  }
+
+  /**
+   * Build the error for a timed-out or cancelled call
+   */
+  private abortError(errorLabel: string, timedOut: boolean, timeout: number | undefined, attempts: number): AIGatewayError {
+    return new AIGatewayError(
+      timedOut ? `${errorLabel}: request timed out after ${timeout}ms` : `${errorLabel}: request aborted`,
+      {
+        status: timedOut ? 504 : 499,
+        code: AIGatewayErrorCode.NETWORK_ERROR,
+        provider: this.name as ProviderType,
+        attempts,
+        isTimeout: timedOut,
+      }
+    );
+  }
+
+  /**
+   * Full-jitter exponential backoff: random delay in [base/2, base]
+   */
+  private backoffDelay(attempt: number, policy: Required<RetryConfig>): number {
+    const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+    return base / 2 + Math.random() * (base / 2);
+  }
+
+  /**
+   * Wait between attempts, rejecting early if the call is aborted
+   */
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) return reject(signal.reason);
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
 
   /**
    * Create a standardized error with provider context
@@ -58,7 +370,8 @@ export abstract class BaseProvider implements AIProvider {
     message: string,
     status?: number,
     raw?: unknown,
-    code?: AIGatewayErrorCode
+    code?: AIGatewayErrorCode,
+    attempts?: number
   ): AIGatewayError {
     // Determine error code from status if not provided
     const errorCode = code ?? this.statusToErrorCode(status);
@@ -68,6 +381,7 @@ export abstract class BaseProvider implements AIProvider {
       code: errorCode,
       provider: this.name as ProviderType,
       raw,
+      attempts,
     });
   }
 
@@ -85,6 +399,39 @@ export abstract class BaseProvider implements AIProvider {
     return AIGatewayErrorCode.UNKNOWN_ERROR;
   }
 
+  /**
+   * Messages as sent to OpenAI-compatible APIs: `reasoning_content` is response-only, but clients
+   * echo it back (and fallback chains replay it to other backends), so it is left out
+   */
+  protected toUpstreamMessages(messages: Message[]): Message[] {
+    return messages.map(m => {
+      if (m.reasoning_content === undefined) return m;
+      const upstream = { ...m };
+      delete upstream.reasoning_content;
+      return upstream;
+    });
+  }
+
+  /**
+   * Check whether any message carries image content
+   */
+  protected hasImageContent(messages: Message[]): boolean {
+    return messages.some(m => Array.isArray(m.content) && m.content.some(p => p.type === 'image_url'));
+  }
+
+  /**
+   * Parse an image URL with {@link parseImageUrl}, attributing rejections to this provider
+   * @throws {AIGatewayError} INVALID_REQUEST when the image is malformed, too large or of an unsupported type
+   */
+  protected parseImageUrl(url: string, limits: ImageLimits): ImageSource {
+    try {
+      return parseImageUrl(url, limits);
+    } catch (err) {
+      if (!(err instanceof AIGatewayError)) throw err;
+      throw this.createError(err.message, 400, null, AIGatewayErrorCode.INVALID_REQUEST);
+    }
+  }
+
   /**
    * Generate a unique chat completion ID
    */
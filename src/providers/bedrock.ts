@@ -0,0 +1,576 @@
+/**
+ * AWS Bedrock Provider
+ *
+ * @description Provider for Amazon Bedrock through the Converse and ConverseStream APIs,
+ * with SigV4 request signing (no AWS SDK required)
+ * @see https://docs.aws.amazon.com/bedrock/latest/APIReference/API_runtime_Converse.html
+ */
+
+import { BaseProvider, type ImageLimits } from './base';
+import { signAwsRequest, type AwsCredentials } from './sigv4';
+import type { BedrockConfig, ChatCompletionRequest, ChatCompletionResponse, ChatOptions, ContentPart, FinishReason, Message, ToolCall } from '../types';
+import { AIGatewayError, AIGatewayErrorCode } from '../types';
+
+/** Converse content block */
+interface ConverseContentBlock {
+  text?: string;
+  image?: { format: string; source: { bytes: string } };
+  toolUse?: { toolUseId: string; name: string; input: unknown };
+  toolResult?: { toolUseId: string; content: { text: string }[] };
+}
+
+interface ConverseMessage {
+  role: 'user' | 'assistant';
+  content: ConverseContentBlock[];
+}
+
+interface ConverseUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/** Converse API response */
+interface ConverseResponse {
+  output?: { message?: ConverseMessage };
+  stopReason?: string;
+  usage?: ConverseUsage;
+}
+
+/** Payload of a ConverseStream event (fields depend on the event type) */
+interface ConverseStreamEvent {
+  contentBlockIndex?: number;
+  start?: { toolUse?: { toolUseId: string; name: string } };
+  delta?: { text?: string; toolUse?: { input?: string } };
+  stopReason?: string;
+  usage?: ConverseUsage;
+  /** Exception message */
+  message?: string;
+}
+
+/** One message of the AWS event-stream encoding */
+interface EventStreamMessage {
+  headers: Record<string, string | number | boolean>;
+  payload: Uint8Array;
+}
+
+/** Bedrock image input limits (Converse takes inline bytes, not URLs) */
+const BEDROCK_IMAGE_LIMITS: ImageLimits = {
+  maxBytes: 3.75 * 1024 * 1024,
+  mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+};
+
+/** Bedrock exception names -> HTTP status and error code */
+const BEDROCK_ERRORS: Record<string, { status: number; code: AIGatewayErrorCode }> = {
+  ValidationException: { status: 400, code: AIGatewayErrorCode.INVALID_REQUEST },
+  ResourceNotFoundException: { status: 404, code: AIGatewayErrorCode.INVALID_REQUEST },
+  AccessDeniedException: { status: 403, code: AIGatewayErrorCode.AUTHENTICATION_ERROR },
+  UnrecognizedClientException: { status: 403, code: AIGatewayErrorCode.AUTHENTICATION_ERROR },
+  ExpiredTokenException: { status: 403, code: AIGatewayErrorCode.AUTHENTICATION_ERROR },
+  ThrottlingException: { status: 429, code: AIGatewayErrorCode.RATE_LIMIT_ERROR },
+  ServiceQuotaExceededException: { status: 429, code: AIGatewayErrorCode.RATE_LIMIT_ERROR },
+  ModelNotReadyException: { status: 429, code: AIGatewayErrorCode.PROVIDER_ERROR },
+  ModelTimeoutException: { status: 408, code: AIGatewayErrorCode.PROVIDER_ERROR },
+  ModelErrorException: { status: 424, code: AIGatewayErrorCode.PROVIDER_ERROR },
+  ModelStreamErrorException: { status: 424, code: AIGatewayErrorCode.PROVIDER_ERROR },
+  InternalServerException: { status: 500, code: AIGatewayErrorCode.PROVIDER_ERROR },
+  ServiceUnavailableException: { status: 503, code: AIGatewayErrorCode.PROVIDER_ERROR },
+};
+
+/** Error codes for Bedrock statuses the generic status mapping does not cover */
+const BEDROCK_STATUS_CODES: Record<number, AIGatewayErrorCode> = {
+  404: AIGatewayErrorCode.INVALID_REQUEST,
+  408: AIGatewayErrorCode.PROVIDER_ERROR,
+  424: AIGatewayErrorCode.PROVIDER_ERROR,
+};
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Split complete messages off the front of an event-stream buffer
+ *
+ * Each message is framed as: total length (4 bytes) | headers length (4) | prelude CRC (4) |
+ * headers | payload | message CRC (4), all integers big-endian. Headers are a name (1-byte
+ * length), a type byte and a typed value.
+ *
+ * @throws {Error} When a checksum does not match
+ */
+function readEventStreamMessages(buffer: Uint8Array): { messages: EventStreamMessage[]; rest: Uint8Array } {
+  const messages: EventStreamMessage[] = [];
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  while (buffer.length - offset >= 12) {
+    const view = new DataView(buffer.buffer, buffer.byteOffset + offset);
+    const totalLength = view.getUint32(0);
+    const headersLength = view.getUint32(4);
+    if (crc32(buffer.subarray(offset, offset + 8)) !== view.getUint32(8)) {
+      throw new Error('event stream prelude checksum mismatch');
+    }
+    if (buffer.length - offset < totalLength) break;
+
+    const message = buffer.subarray(offset, offset + totalLength);
+    if (crc32(message.subarray(0, totalLength - 4)) !== view.getUint32(totalLength - 4)) {
+      throw new Error('event stream message checksum mismatch');
+    }
+
+    const headers: EventStreamMessage['headers'] = {};
+    const headerView = new DataView(message.buffer, message.byteOffset + 12, headersLength);
+    let pos = 0;
+    while (pos < headersLength) {
+      const nameLength = headerView.getUint8(pos);
+      const name = decoder.decode(message.subarray(12 + pos + 1, 12 + pos + 1 + nameLength));
+      pos += 1 + nameLength;
+      const type = headerView.getUint8(pos++);
+      switch (type) {
+        case 0: headers[name] = true; break;
+        case 1: headers[name] = false; break;
+        case 2: headers[name] = headerView.getInt8(pos); pos += 1; break;
+        case 3: headers[name] = headerView.getInt16(pos); pos += 2; break;
+        case 4: headers[name] = headerView.getInt32(pos); pos += 4; break;
+        case 5: // int64
+        case 8: // timestamp (ms)
+          headers[name] = Number(headerView.getBigInt64(pos)); pos += 8; break;
+        case 6: // byte array (not needed, skipped)
+        case 7: { // string
+          const length = headerView.getUint16(pos);
+          if (type === 7) headers[name] = decoder.decode(message.subarray(12 + pos + 2, 12 + pos + 2 + length));
+          pos += 2 + length;
+          break;
+        }
+        case 9: pos += 16; break; // uuid
+        default:
+          throw new Error(`unknown event stream header type ${type}`);
+      }
+    }
+
+    messages.push({ headers, payload: message.subarray(12 + headersLength, totalLength - 4) });
+    offset += totalLength;
+  }
+
+  return { messages, rest: buffer.slice(offset) };
+}
+
+/**
+ * Map Converse stopReason to OpenAI finish_reason
+ */
+function mapStopReason(stopReason: string | undefined): FinishReason {
+  switch (stopReason) {
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'guardrail_intervened':
+    case 'content_filtered':
+      return 'content_filter';
+    default:
+      // end_turn, stop_sequence
+      return 'stop';
+  }
+}
+
+export class BedrockProvider extends BaseProvider {
+  readonly name = 'bedrock';
+  readonly supportsStreaming = true;
+
+  private readonly region: string;
+  private readonly endpoint: string;
+  private readonly credentials: AwsCredentials;
+  private readonly defaultModel: string;
+
+  constructor(config: BedrockConfig) {
+    super(config);
+
+    if (!config.region) {
+      throw this.createError('Bedrock region is required', 400, null, AIGatewayErrorCode.CONFIG_ERROR);
+    }
+    if (!config.accessKeyId || !config.secretAccessKey) {
+      throw this.createError('Bedrock AWS credentials are required', 400, null, AIGatewayErrorCode.CONFIG_ERROR);
+    }
+
+    this.region = config.region;
+    this.endpoint = (config.endpoint || `https://bedrock-runtime.${config.region}.amazonaws.com`).replace(/\/$/, '');
+    this.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      sessionToken: config.sessionToken,
+    };
+    this.defaultModel = config.model || 'anthropic.claude-3-5-sonnet-20240620-v1:0';
+  }
+
+  /**
+   * Flatten message content to plain text
+   */
+  private contentToText(content: Message['content']): string {
+    if (content === null || content === undefined) return '';
+    if (typeof content === 'string') return content;
+    return content.map(p => p.text || '').join('');
+  }
+
+  /**
+   * Parse JSON tool arguments, tolerating malformed input
+   */
+  private parseToolArguments(args: string): unknown {
+    try {
+      return args ? JSON.parse(args) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Convert an OpenAI content part to a Converse text or image block
+   */
+  private convertContentPart(part: ContentPart): ConverseContentBlock {
+    if (part.type === 'image_url' && part.image_url) {
+      const image = this.parseImageUrl(part.image_url.url, BEDROCK_IMAGE_LIMITS);
+      if (image.kind !== 'base64') {
+        throw this.createError('Bedrock only accepts images as data URLs', 400, null, AIGatewayErrorCode.INVALID_REQUEST);
+      }
+      return { image: { format: image.mediaType.split('/')[1], source: { bytes: image.data } } };
+    }
+    return { text: part.text || '' };
+  }
+
+  /**
+   * Convert OpenAI messages to Converse format
+   *
+   * Assistant tool calls become `toolUse` blocks and `tool` messages `toolResult` blocks.
+   * Converse requires alternating roles, so consecutive messages of one role (such as
+   * several tool results) are merged into a single turn.
+   */
+  private convertMessages(messages: Message[]): ConverseMessage[] {
+    const result: ConverseMessage[] = [];
+
+    for (const m of messages) {
+      if (m.role === 'system') continue;
+
+      let role: ConverseMessage['role'] = m.role === 'assistant' ? 'assistant' : 'user';
+      let content: ConverseContentBlock[];
+
+      if (m.role === 'tool') {
+        role = 'user';
+        content = [{ toolResult: { toolUseId: m.tool_call_id || '', content: [{ text: this.contentToText(m.content) }] } }];
+      } else if (m.role === 'assistant' && m.tool_calls?.length) {
+        const text = this.contentToText(m.content);
+        content = text ? [{ text }] : [];
+        for (const call of m.tool_calls) {
+          content.push({
+            toolUse: { toolUseId: call.id, name: call.function.name, input: this.parseToolArguments(call.function.arguments) },
+          });
+        }
+      } else if (Array.isArray(m.content)) {
+        content = m.content.map(p => this.convertContentPart(p)).filter(b => b.text !== '');
+      } else {
+        content = m.content ? [{ text: m.content }] : [];
+      }
+      // Converse rejects blank text blocks and messages without content
+      if (content.length === 0) continue;
+
+      const last = result[result.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...content);
+      } else {
+        result.push({ role, content });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert OpenAI tools and tool_choice to a Converse toolConfig
+   */
+  private convertTools(request: ChatCompletionRequest): Record<string, unknown> | undefined {
+    // Converse has no "none" tool choice; leave the tools out instead
+    if (!request.tools?.length || request.tool_choice === 'none') return undefined;
+
+    const toolConfig: Record<string, unknown> = {
+      tools: request.tools.map(t => ({
+        toolSpec: {
+          name: t.function.name,
+          description: t.function.description,
+          inputSchema: { json: t.function.parameters || { type: 'object', properties: {} } },
+        },
+      })),
+    };
+
+    const choice = request.tool_choice;
+    if (choice === 'required') toolConfig.toolChoice = { any: {} };
+    else if (typeof choice === 'object') toolConfig.toolChoice = { tool: { name: choice.function.name } };
+    else if (choice === 'auto') toolConfig.toolChoice = { auto: {} };
+
+    return toolConfig;
+  }
+
+  /**
+   * Build request body (the model is part of the URL)
+   */
+  private buildRequestBody(request: ChatCompletionRequest): string {
+    const body: Record<string, unknown> = {
+      messages: this.convertMessages(request.messages),
+    };
+
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => ({ text: this.contentToText(m.content) }))
+      .filter(b => b.text);
+    if (system.length) body.system = system;
+
+    const inferenceConfig: Record<string, unknown> = {};
+    if (request.max_tokens !== undefined) inferenceConfig.maxTokens = request.max_tokens;
+    if (request.temperature !== undefined) inferenceConfig.temperature = request.temperature;
+    if (request.top_p !== undefined) inferenceConfig.topP = request.top_p;
+    if (Object.keys(inferenceConfig).length) body.inferenceConfig = inferenceConfig;
+
+    const toolConfig = this.convertTools(request);
+    if (toolConfig) body.toolConfig = toolConfig;
+
+    return JSON.stringify(body);
+  }
+
+  /**
+   * Build an error from a Bedrock exception name (e.g. "ThrottlingException",
+   * "com.amazon.coral.service#UnrecognizedClientException" or the stream's "throttlingException")
+   */
+  private bedrockError(type: string | undefined, message: string, status?: number, raw?: unknown, attempts?: number): AIGatewayError {
+    const shortName = type?.split('#').pop()?.split(':')[0];
+    const name = shortName ? shortName.charAt(0).toUpperCase() + shortName.slice(1) : undefined;
+    const known = name ? BEDROCK_ERRORS[name] : undefined;
+    const errorStatus = status ?? known?.status ?? 500;
+    const code = known?.code ?? BEDROCK_STATUS_CODES[errorStatus];
+    return this.createError(`Bedrock error: ${name ? `${name}: ` : ''}${message}`, errorStatus, raw, code, attempts);
+  }
+
+  /**
+   * Sign and send a Converse or ConverseStream request, mapping Bedrock errors
+   */
+  private async send(request: ChatCompletionRequest, model: string, stream: boolean, options: ChatOptions): Promise<Response> {
+    const url = `${this.endpoint}/model/${encodeURIComponent(model)}/${stream ? 'converse-stream' : 'converse'}`;
+    const body = this.buildRequestBody(request);
+    const headers = await signAwsRequest({
+      method: 'POST',
+      url,
+      headers: {
+        'content-type': 'application/json',
+        'accept': stream ? 'application/vnd.amazon.eventstream' : 'application/json',
+      },
+      body,
+    }, this.credentials, this.region, 'bedrock');
+
+    try {
+      return await this.fetchWithRetry(url, { method: 'POST', headers, body }, 'Bedrock error', {
+        signal: options.signal,
+        timeout: request.timeout,
+        stream,
+      });
+    } catch (err) {
+      // HTTP errors carry the response body ({"message": "..."}, sometimes with "__type")
+      if (!(err instanceof AIGatewayError) || typeof err.raw !== 'string') throw err;
+      let parsed: { message?: string; Message?: string; __type?: string } = {};
+      try {
+        parsed = JSON.parse(err.raw);
+      } catch {
+        // not JSON: keep the raw text as the message
+      }
+      throw this.bedrockError(parsed.__type, parsed.message || parsed.Message || err.raw, err.status, err.raw, err.attempts);
+    }
+  }
+
+  /**
+   * Convert Converse response to OpenAI format
+   */
+  private convertResponse(response: ConverseResponse, model: string): ChatCompletionResponse {
+    const blocks = response.output?.message?.content || [];
+    const text = blocks.map(b => b.text || '').join('');
+    const toolCalls: ToolCall[] = blocks
+      .filter(b => b.toolUse)
+      .map(b => ({
+        id: b.toolUse!.toolUseId,
+        type: 'function',
+        function: {
+          name: b.toolUse!.name,
+          arguments: JSON.stringify(b.toolUse!.input ?? {}),
+        },
+      }));
+
+    return {
+      id: this.generateId(),
+      object: 'chat.completion',
+      created: this.getTimestamp(),
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: toolCalls.length && !text ? null : text,
+            ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: mapStopReason(response.stopReason),
+        },
+      ],
+      usage: response.usage ? {
+        prompt_tokens: response.usage.inputTokens || 0,
+        completion_tokens: response.usage.outputTokens || 0,
+        total_tokens: response.usage.totalTokens || 0,
+      } : undefined,
+    };
+  }
+
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
+    const model = request.model || this.defaultModel;
+    const response = await this.send(request, model, false, options);
+    return this.convertResponse(await response.json() as ConverseResponse, model);
+  }
+
+  /**
+   * Stream chat completions
+   */
+  async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ReadableStream> {
+    const model = request.model || this.defaultModel;
+    const response = await this.send(request, model, true, options);
+
+    if (!response.body) {
+      throw this.createError('No response body for streaming', 500, null, AIGatewayErrorCode.PROVIDER_ERROR);
+    }
+
+    // Decode the event stream into OpenAI SSE chunks
+    return response.body.pipeThrough(this.createStreamTransformer(model, request.stream_options?.include_usage === true));
+  }
+
+  /**
+   * Create a transformer from the ConverseStream event stream to OpenAI SSE chunks
+   *
+   * `contentBlockDelta` text becomes `delta.content`; `toolUse` blocks become `delta.tool_calls`
+   * entries (id and name from `contentBlockStart`, then input fragments as arguments).
+   * Exception messages (throttling, model errors) error the stream with the mapped error code.
+   * With `includeUsage`, the `metadata` usage is emitted as a final usage chunk.
+   */
+  private createStreamTransformer(model: string, includeUsage: boolean): TransformStream<Uint8Array, Uint8Array> {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const id = this.generateId();
+    let buffer: Uint8Array = new Uint8Array(0);
+    let usage: ConverseUsage | undefined;
+    // Converse content block index -> OpenAI tool call index
+    const toolIndexes = new Map<number, number>();
+
+    const emit = (controller: TransformStreamDefaultController<Uint8Array>, delta: Record<string, unknown>, finishReason: FinishReason) => {
+      const chunk = {
+        id,
+        object: 'chat.completion.chunk',
+        created: this.getTimestamp(),
+        model,
+        choices: [{
+          index: 0,
+          delta,
+          finish_reason: finishReason,
+        }],
+      };
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+    };
+
+    const processMessage = (message: EventStreamMessage, controller: TransformStreamDefaultController<Uint8Array>) => {
+      const payloadText = decoder.decode(message.payload);
+      let payload: ConverseStreamEvent = {};
+      try {
+        payload = payloadText ? JSON.parse(payloadText) : {};
+      } catch {
+        // Skip malformed payloads
+      }
+
+      const messageType = message.headers[':message-type'];
+      if (messageType === 'exception' || messageType === 'error') {
+        const type = String(message.headers[':exception-type'] ?? message.headers[':error-code'] ?? '');
+        throw this.bedrockError(type || undefined, payload.message || String(message.headers[':error-message'] ?? payloadText), undefined, payloadText);
+      }
+
+      switch (message.headers[':event-type']) {
+        case 'contentBlockStart': {
+          const toolUse = payload.start?.toolUse;
+          if (!toolUse) break;
+          const toolIndex = toolIndexes.size;
+          toolIndexes.set(payload.contentBlockIndex ?? 0, toolIndex);
+          emit(controller, {
+            tool_calls: [{
+              index: toolIndex,
+              id: toolUse.toolUseId,
+              type: 'function',
+              function: { name: toolUse.name, arguments: '' },
+            }],
+          }, null);
+          break;
+        }
+        case 'contentBlockDelta': {
+          if (payload.delta?.text) emit(controller, { content: payload.delta.text }, null);
+          const toolIndex = toolIndexes.get(payload.contentBlockIndex ?? 0);
+          if (toolIndex !== undefined && payload.delta?.toolUse?.input) {
+            emit(controller, {
+              tool_calls: [{ index: toolIndex, function: { arguments: payload.delta.toolUse.input } }],
+            }, null);
+          }
+          break;
+        }
+        case 'messageStop':
+          emit(controller, {}, mapStopReason(payload.stopReason));
+          break;
+        case 'metadata':
+          if (payload.usage) usage = payload.usage;
+          break;
+      }
+    };
+
+    return new TransformStream({
+      transform: (chunk, controller) => {
+        const joined = new Uint8Array(buffer.length + chunk.length);
+        joined.set(buffer);
+        joined.set(chunk, buffer.length);
+
+        let decoded: ReturnType<typeof readEventStreamMessages>;
+        try {
+          decoded = readEventStreamMessages(joined);
+        } catch (err) {
+          throw this.createError(`Bedrock stream error: ${err instanceof Error ? err.message : String(err)}`, 502, err, AIGatewayErrorCode.PROVIDER_ERROR);
+        }
+        buffer = decoded.rest;
+        for (const message of decoded.messages) processMessage(message, controller);
+      },
+      flush: (controller) => {
+        if (buffer.length) {
+          throw this.createError('Bedrock stream error: stream ended mid-message', 502, null, AIGatewayErrorCode.PROVIDER_ERROR);
+        }
+        if (includeUsage && usage) {
+          const usageChunk = {
+            id,
+            object: 'chat.completion.chunk',
+            created: this.getTimestamp(),
+            model,
+            choices: [],
+            usage: {
+              prompt_tokens: usage.inputTokens || 0,
+              completion_tokens: usage.outputTokens || 0,
+              total_tokens: usage.totalTokens || 0,
+            },
+          };
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(usageChunk)}\n\n`));
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      },
+    });
+  }
+}
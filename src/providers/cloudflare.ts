@@ -6,13 +6,14 @@
  */
 
 import { BaseProvider } from './base';
-import type { CloudflareConfig, ChatCompletionRequest, ChatCompletionResponse } from '../types';
+import type { CloudflareConfig, ChatCompletionRequest, ChatCompletionResponse, ChatOptions, ToolCall } from '../types';
 import { AIGatewayErrorCode } from '../types';
 
 /** Response format from Cloudflare AI API */
 interface CloudflareAIResponse {
   result?: {
     response?: string;
+    tool_calls?: Array<{ name: string; arguments?: unknown }>;
   };
   success: boolean;
   errors: Array<{ message: string; code?: number }>;
@@ -42,30 +43,26 @@ export class CloudflareProvider extends BaseProvider {
     this.defaultModel = config.model || '@cf/meta/llama-3.1-8b-instruct';
   }
 
-  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
     const model = request.model || this.defaultModel;
     const url = `https://api.cloudflare.com/client/v4/accounts/${this.accountId}/ai/run/${model}`;
 
     const body: Record<string, unknown> = {
-      messages: request.messages,
+      messages: this.toUpstreamMessages(request.messages),
     };
     
     if (request.max_tokens !== undefined) body.max_tokens = request.max_tokens;
     if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.tools?.length && request.tool_choice !== 'none') body.tools = request.tools;
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.apiToken}`,
       },
       body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw this.createError(`Cloudflare AI error: ${errorText}`, response.status, errorText);
-    }
+    }, 'Cloudflare AI error', { signal: options.signal, timeout: request.timeout });
 
     const data = await response.json() as CloudflareAIResponse;
 
@@ -81,7 +78,15 @@ export class CloudflareProvider extends BaseProvider {
 
     // Validate response content exists
     const content = data.result?.response;
-    if (content === undefined || content === null) {
+    const toolCalls: ToolCall[] = (data.result?.tool_calls || []).map((call, i) => ({
+      id: `call_${Date.now()}_${i}`,
+      type: 'function',
+      function: {
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {}),
+      },
+    }));
+    if ((content === undefined || content === null) && !toolCalls.length) {
       throw this.createError(
         'Cloudflare AI returned empty response',
         500,
@@ -101,9 +106,10 @@ export class CloudflareProvider extends BaseProvider {
           index: 0,
           message: {
             role: 'assistant',
-            content,
+            content: content ?? null,
+            ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
           },
-          finish_reason: 'stop',
+          finish_reason: toolCalls.length ? 'tool_calls' : 'stop',
         },
       ],
     };
@@ -0,0 +1,45 @@
+/**
+ * Completion Stream
+ *
+ * @description Replays a finished chat completion as an OpenAI-style SSE
+ * stream, so backends that cannot stream can still serve `stream: true`
+ * requests (e.g. inside a fallback chain).
+ */
+
+import type { ChatCompletionResponse } from '../types';
+
+/**
+ * Convert a chat completion into `chat.completion.chunk` SSE events
+ *
+ * Each choice is sent as one content/tool-call delta followed by its finish
+ * reason. With `includeUsage`, the response usage is sent as a final chunk
+ * with empty `choices`, as OpenAI does for `stream_options.include_usage`.
+ */
+export function completionToStream(response: ChatCompletionResponse, includeUsage = false): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunk = (choices: unknown[], extra: Record<string, unknown> = {}) => encoder.encode(`data: ${JSON.stringify({
+    id: response.id,
+    object: 'chat.completion.chunk',
+    created: response.created,
+    model: response.model,
+    choices,
+    ...extra,
+  })}\n\n`);
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const choice of response.choices) {
+        const delta: Record<string, unknown> = { role: 'assistant' };
+        if (choice.message.content) delta.content = choice.message.content;
+        if (choice.message.tool_calls?.length) {
+          delta.tool_calls = choice.message.tool_calls.map((call, index) => ({ index, ...call }));
+        }
+        controller.enqueue(chunk([{ index: choice.index, delta, finish_reason: null }]));
+        controller.enqueue(chunk([{ index: choice.index, delta: {}, finish_reason: choice.finish_reason }]));
+      }
+      if (includeUsage && response.usage) controller.enqueue(chunk([], { usage: response.usage }));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+}
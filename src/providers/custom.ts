@@ -0,0 +1,142 @@
+/**
+ * Custom Provider
+ *
+ * @description Provider for arbitrary OpenAI-compatible endpoints (vLLM, Ollama, LM Studio, TGI, LiteLLM)
+ */
+
+import { BaseProvider } from './base';
+import type { CustomConfig, ModelQuirks, ChatCompletionRequest, ChatCompletionResponse, ChatOptions } from '../types';
+import { AIGatewayErrorCode } from '../types';
+
+export class CustomProvider extends BaseProvider {
+  readonly name: string;
+  readonly supportsStreaming: boolean;
+
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly defaultModel?: string;
+  private readonly modelQuirks: Record<string, ModelQuirks>;
+
+  constructor(config: CustomConfig) {
+    super(config);
+    this.name = config.name || 'custom';
+
+    if (!config.baseUrl) {
+      throw this.createError('Custom provider baseUrl is required', 400, null, AIGatewayErrorCode.CONFIG_ERROR);
+    }
+
+    const path = config.chatPath ?? '/chat/completions';
+    this.url = `${config.baseUrl.replace(/\/$/, '')}${path && !path.startsWith('/') ? '/' : ''}${path}`;
+    this.supportsStreaming = config.streaming !== false;
+    this.defaultModel = config.model;
+    this.modelQuirks = config.modelQuirks || {};
+
+    this.headers = { 'Content-Type': 'application/json', ...config.headers };
+    if (config.apiKey) {
+      const header = config.authHeader || 'Authorization';
+      const scheme = config.authScheme ?? (header.toLowerCase() === 'authorization' ? 'Bearer' : '');
+      this.headers[header] = scheme ? `${scheme} ${config.apiKey}` : config.apiKey;
+    }
+  }
+
+  /**
+   * Merge the quirks that apply to a model: "*" first, then prefix patterns (shortest first), then the exact name
+   */
+  private quirksFor(model: string | undefined): Required<ModelQuirks> {
+    const matching = Object.entries(this.modelQuirks)
+      .filter(([pattern]) => pattern === model || (pattern.endsWith('*') && (model ?? '').startsWith(pattern.slice(0, -1))))
+      .sort(([a], [b]) => (a === model ? 1 : b === model ? -1 : a.length - b.length));
+
+    const merged: Required<ModelQuirks> = { drop: [], rename: {}, extra: {} };
+    for (const [, quirks] of matching) {
+      merged.drop.push(...(quirks.drop || []));
+      Object.assign(merged.rename, quirks.rename);
+      Object.assign(merged.extra, quirks.extra);
+    }
+    return merged;
+  }
+
+  /**
+   * Adjust the request body before model quirks are applied (for subclasses)
+   */
+  protected prepareBody(_body: Record<string, unknown>): void {}
+
+  /**
+   * Normalize a non-streaming response (for subclasses)
+   */
+  protected normalizeResponse(response: ChatCompletionResponse): ChatCompletionResponse {
+    return response;
+  }
+
+  /**
+   * Normalize a response stream of OpenAI SSE chunks (for subclasses)
+   */
+  protected normalizeStream(stream: ReadableStream): ReadableStream {
+    return stream;
+  }
+
+  /**
+   * Build request body, applying the model's quirks
+   */
+  private buildRequestBody(request: ChatCompletionRequest, stream: boolean): string {
+    const model = request.model || this.defaultModel;
+    const body: Record<string, unknown> = {
+      messages: this.toUpstreamMessages(request.messages),
+      stream,
+    };
+
+    if (model) body.model = model;
+    if (request.max_tokens !== undefined) body.max_tokens = request.max_tokens;
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.top_p !== undefined) body.top_p = request.top_p;
+    if (request.tools?.length) body.tools = request.tools;
+    if (request.tool_choice !== undefined) body.tool_choice = request.tool_choice;
+    if (request.parallel_tool_calls !== undefined) body.parallel_tool_calls = request.parallel_tool_calls;
+    if (stream && request.stream_options) body.stream_options = request.stream_options;
+
+    this.prepareBody(body);
+
+    const quirks = this.quirksFor(model);
+    for (const field of quirks.drop) delete body[field];
+    for (const [from, to] of Object.entries(quirks.rename)) {
+      if (from in body) {
+        body[to] = body[from];
+        delete body[from];
+      }
+    }
+    Object.assign(body, quirks.extra);
+
+    return JSON.stringify(body);
+  }
+
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
+    const response = await this.fetchWithRetry(this.url, {
+      method: 'POST',
+      headers: this.headers,
+      body: this.buildRequestBody(request, false),
+    }, `${this.name} error`, { signal: options.signal, timeout: request.timeout });
+
+    return this.normalizeResponse(await response.json() as ChatCompletionResponse);
+  }
+
+  /**
+   * Stream chat completions
+   */
+  async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ReadableStream> {
+    if (!this.supportsStreaming) {
+      throw this.createError(`${this.name} does not support streaming`, 400, null, AIGatewayErrorCode.INVALID_REQUEST);
+    }
+
+    const response = await this.fetchWithRetry(this.url, {
+      method: 'POST',
+      headers: this.headers,
+      body: this.buildRequestBody(request, true),
+    }, `${this.name} error`, { signal: options.signal, timeout: request.timeout, stream: true });
+
+    if (!response.body) {
+      throw this.createError('No response body for streaming', 500, null, AIGatewayErrorCode.PROVIDER_ERROR);
+    }
+
+    return this.normalizeStream(response.body);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Fallback Provider
+ *
+ * @description Wraps an ordered chain of providers and fails over to the next
+ * one when a call fails with a transient error (rate limit, provider outage,
+ * network failure).
+ */
+
+import type { AIProvider } from './base';
+import { completionToStream } from './completion-stream';
+import type { ChatCompletionRequest, ChatCompletionResponse, ChatOptions } from '../types';
+import { AIGatewayError, AIGatewayErrorCode } from '../types';
+
+/**
+ * A single entry in a fallback chain
+ */
+export interface FallbackTarget {
+  /** Provider to call */
+  provider: AIProvider;
+  /** Model to request from this provider (overrides request.model) */
+  model?: string;
+}
+
+/**
+ * Information about a failover from one target to the next
+ */
+export interface FallbackEvent {
+  /** Index of the target that failed */
+  from: number;
+  /** Index of the target that will be tried next */
+  to: number;
+  /** Error raised by the failed target */
+  error: AIGatewayError;
+}
+
+export interface FallbackProviderOptions {
+  /** Error codes that trigger failover (default: RATE_LIMIT_ERROR, PROVIDER_ERROR, NETWORK_ERROR) */
+  retryOn?: AIGatewayErrorCode[];
+  /** Called before moving on to the next target */
+  onFallback?: (event: FallbackEvent) => void;
+  /** Called with the index of the target that served the request */
+  onSuccess?: (index: number) => void;
+}
+
+/** Error codes that are worth retrying on another backend */
+const DEFAULT_RETRY_ON: AIGatewayErrorCode[] = [
+  AIGatewayErrorCode.RATE_LIMIT_ERROR,
+  AIGatewayErrorCode.PROVIDER_ERROR,
+  AIGatewayErrorCode.NETWORK_ERROR,
+];
+
+export class FallbackProvider implements AIProvider {
+  readonly name = 'fallback';
+
+  private readonly targets: FallbackTarget[];
+  private readonly retryOn: AIGatewayErrorCode[];
+  private readonly onFallback?: (event: FallbackEvent) => void;
+  private readonly onSuccess?: (index: number) => void;
+
+  constructor(targets: FallbackTarget[], options: FallbackProviderOptions = {}) {
+    if (targets.length === 0) {
+      throw new AIGatewayError('Fallback chain requires at least one provider', {
+        status: 400,
+        code: AIGatewayErrorCode.CONFIG_ERROR,
+      });
+    }
+
+    this.targets = targets;
+    this.retryOn = options.retryOn ?? DEFAULT_RETRY_ON;
+    this.onFallback = options.onFallback;
+    this.onSuccess = options.onSuccess;
+  }
+
+  /**
+   * Every target can serve a stream: those that cannot stream natively are
+   * replayed as SSE (see chatStream)
+   */
+  readonly supportsStreaming = true;
+
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
+    return this.run(this.targets.map((_, i) => i), options, (target, targetOptions) =>
+      target.provider.chat(this.withModel(request, target), targetOptions)
+    );
+  }
+
+  /**
+   * Stream chat completions
+   *
+   * Targets are tried in chain order. One that cannot stream is called
+   * without streaming and its completion is replayed as SSE chunks, so it
+   * still acts as a fallback for a streaming primary. Failover only happens
+   * while establishing the stream; once a target has returned a stream, errors
+   * inside it are surfaced to the consumer.
+   */
+  async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ReadableStream> {
+    return this.run(this.targets.map((_, i) => i), options, async (target, targetOptions) => {
+      const targetRequest = this.withModel(request, target);
+      if (target.provider.supportsStreaming && target.provider.chatStream) {
+        return target.provider.chatStream(targetRequest, targetOptions);
+      }
+      const response = await target.provider.chat({ ...targetRequest, stream: false }, targetOptions);
+      return completionToStream(response, request.stream_options?.include_usage === true);
+    });
+  }
+
+  /**
+   * Try each target in order until one succeeds, a non-retryable error occurs
+   * or the caller aborts. The target that succeeds is reported through
+   * `options.onServed`, unless it reported a backend of its own (nested pools)
+   */
+  private async run<T>(
+    indexes: number[],
+    options: ChatOptions,
+    call: (target: FallbackTarget, options: ChatOptions) => Promise<T>
+  ): Promise<T> {
+    let lastError: AIGatewayError | undefined;
+
+    for (let n = 0; n < indexes.length; n++) {
+      const index = indexes[n];
+      const target = this.targets[index];
+      let reported = false;
+      const targetOptions: ChatOptions = {
+        ...options,
+        onServed: (served) => {
+          reported = true;
+          options.onServed?.(served);
+        },
+      };
+      try {
+        const result = await call(target, targetOptions);
+        if (!reported) options.onServed?.({ provider: target.provider.name, model: target.model });
+        this.onSuccess?.(index);
+        return result;
+      } catch (err) {
+        const error = this.normalizeError(err, target);
+        if (!this.retryOn.includes(error.code) || options.signal?.aborted) throw error;
+
+        lastError = error;
+        if (n + 1 < indexes.length) {
+          this.onFallback?.({ from: index, to: indexes[n + 1], error });
+        }
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Apply a target's model override to the request
+   */
+  private withModel(request: ChatCompletionRequest, target: FallbackTarget): ChatCompletionRequest {
+    return target.model ? { ...request, model: target.model } : request;
+  }
+
+  /**
+   * Wrap unexpected errors; fetch rejects with TypeError on network failures
+   */
+  private normalizeError(err: unknown, target: FallbackTarget): AIGatewayError {
+    if (err instanceof AIGatewayError) return err;
+
+    const message = err instanceof Error ? err.message : String(err);
+    return new AIGatewayError(`${target.provider.name} request failed: ${message}`, {
+      status: 502,
+      code: err instanceof TypeError ? AIGatewayErrorCode.NETWORK_ERROR : AIGatewayErrorCode.UNKNOWN_ERROR,
+      raw: err,
+    });
+  }
+}
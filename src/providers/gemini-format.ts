@@ -0,0 +1,379 @@
+/**
+ * Gemini API translation
+ *
+ * @description Conversion between the OpenAI chat format and the Gemini generateContent API,
+ * shared by every backend that serves Gemini (Gemini API, Vertex AI)
+ * @see https://ai.google.dev/api/generate-content
+ */
+
+import type { ImageLimits, ImageSource } from './base';
+import type { ChatCompletionRequest, ChatCompletionResponse, ContentPart, FinishReason, Message, ToolCall } from '../types';
+
+/** Gemini content part */
+export interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  fileData?: { mimeType: string; fileUri: string };
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+/** Gemini message format */
+export interface GeminiMessage {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+/** Gemini generateContent response (also used for each streamed chunk) */
+export interface GeminiResponse {
+  candidates?: {
+    content?: { role?: string; parts?: GeminiPart[] };
+    finishReason?: string;
+  }[];
+  usageMetadata?: {
+    promptTokenCount: number;
+    candidatesTokenCount: number;
+    totalTokenCount: number;
+  };
+}
+
+/** Gemini image input limits (inline data counts against the 20MB request limit; Cloud Storage URIs are read by Vertex AI) */
+export const GEMINI_IMAGE_LIMITS: ImageLimits = {
+  maxBytes: 20 * 1024 * 1024,
+  mimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'],
+  schemes: ['http', 'https', 'gs'],
+};
+
+export interface GeminiRequestOptions {
+  /** Validate and parse an image URL (see GEMINI_IMAGE_LIMITS); throws for rejected images */
+  parseImage: (url: string) => ImageSource;
+}
+
+/**
+ * Check if a Gemini model accepts image input (all but the text-only 1.0 Pro and embedding models)
+ */
+export function geminiSupportsVision(model: string): boolean {
+  return !/^gemini-(1\.0-)?pro(-\d+)?$/i.test(model) && !/embedding/i.test(model);
+}
+
+/**
+ * Flatten message content to plain text
+ */
+function contentToText(content: Message['content']): string {
+  if (content === null || content === undefined) return '';
+  if (typeof content === 'string') return content;
+  return content.map(p => p.text || '').join('');
+}
+
+/**
+ * Parse JSON tool arguments into the object Gemini expects, tolerating malformed input
+ */
+function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = args ? JSON.parse(args) : {};
+    return parsed && typeof parsed === 'object' ? parsed : { value: parsed };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Wrap a tool message's content as a Gemini functionResponse payload
+ */
+function parseToolResult(content: Message['content']): Record<string, unknown> {
+  const text = contentToText(content);
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    return { content: parsed };
+  } catch {
+    return { content: text };
+  }
+}
+
+/**
+ * Convert an OpenAI content part to a Gemini text, inlineData or fileData part
+ */
+function toGeminiPart(part: ContentPart, parseImage: GeminiRequestOptions['parseImage']): GeminiPart {
+  if (part.type === 'image_url' && part.image_url) {
+    const image = parseImage(part.image_url.url);
+    return image.kind === 'base64'
+      ? { inlineData: { mimeType: image.mediaType, data: image.data } }
+      : { fileData: { mimeType: image.mediaType, fileUri: image.url } };
+  }
+  return { text: part.text || '' };
+}
+
+/**
+ * Convert OpenAI messages to Gemini format
+ *
+ * System messages are dropped (see toGeminiRequest). Assistant tool calls become
+ * `functionCall` parts and `tool` messages become `functionResponse` parts, with
+ * consecutive tool results grouped in one turn.
+ */
+export function toGeminiMessages(messages: Message[], parseImage: GeminiRequestOptions['parseImage']): GeminiMessage[] {
+  // Gemini matches function responses by name, OpenAI by call id
+  const toolNames = new Map<string, string>();
+  for (const m of messages) {
+    for (const call of m.tool_calls || []) toolNames.set(call.id, call.function.name);
+  }
+
+  const result: GeminiMessage[] = [];
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+
+    if (m.role === 'tool') {
+      const part: GeminiPart = {
+        functionResponse: {
+          name: m.name || toolNames.get(m.tool_call_id || '') || '',
+          response: parseToolResult(m.content),
+        },
+      };
+      const last = result[result.length - 1];
+      if (last && last.role === 'user' && last.parts.every(p => p.functionResponse)) {
+        last.parts.push(part);
+      } else {
+        result.push({ role: 'user', parts: [part] });
+      }
+      continue;
+    }
+
+    const parts: GeminiPart[] = [];
+    if (Array.isArray(m.content)) {
+      parts.push(...m.content.map(p => toGeminiPart(p, parseImage)));
+    } else if (m.content || !m.tool_calls?.length) {
+      parts.push({ text: m.content || '' });
+    }
+    for (const call of m.tool_calls || []) {
+      parts.push({ functionCall: { name: call.function.name, args: parseToolArguments(call.function.arguments) } });
+    }
+
+    result.push({ role: m.role === 'assistant' ? 'model' : 'user', parts });
+  }
+  return result;
+}
+
+/**
+ * Strip JSON Schema keywords Gemini rejects
+ */
+function sanitizeGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(sanitizeGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$schema' || key === 'additionalProperties') continue;
+    result[key] = sanitizeGeminiSchema(value);
+  }
+  return result;
+}
+
+/**
+ * Map OpenAI tool_choice to a Gemini functionCallingConfig
+ */
+function toGeminiToolConfig(request: ChatCompletionRequest): Record<string, unknown> | undefined {
+  const choice = request.tool_choice;
+  if (choice === 'none') return { functionCallingConfig: { mode: 'NONE' } };
+  if (choice === 'auto') return { functionCallingConfig: { mode: 'AUTO' } };
+  if (choice === 'required') return { functionCallingConfig: { mode: 'ANY' } };
+  if (typeof choice === 'object') return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [choice.function.name] } };
+  return undefined;
+}
+
+/**
+ * Build a Gemini generateContent request body (the model is part of the URL)
+ */
+export function toGeminiRequest(request: ChatCompletionRequest, options: GeminiRequestOptions): Record<string, unknown> {
+  const body: Record<string, unknown> = { contents: toGeminiMessages(request.messages, options.parseImage) };
+
+  const systemMsg = request.messages.find(m => m.role === 'system');
+  if (systemMsg) body.systemInstruction = { parts: [{ text: contentToText(systemMsg.content) }] };
+
+  if (request.tools?.length) {
+    body.tools = [{
+      functionDeclarations: request.tools.map(t => ({
+        name: t.function.name,
+        description: t.function.description,
+        parameters: t.function.parameters ? sanitizeGeminiSchema(t.function.parameters) : undefined,
+      })),
+    }];
+    const toolConfig = toGeminiToolConfig(request);
+    if (toolConfig) body.toolConfig = toolConfig;
+  }
+
+  const generationConfig: Record<string, unknown> = {};
+  if (request.max_tokens) generationConfig.maxOutputTokens = request.max_tokens;
+  if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+  if (request.top_p !== undefined) generationConfig.topP = request.top_p;
+  if (Object.keys(generationConfig).length) body.generationConfig = generationConfig;
+
+  return body;
+}
+
+/**
+ * Map Gemini finishReason to OpenAI finish_reason
+ */
+export function mapGeminiFinishReason(finishReason: string | undefined, hasToolCalls: boolean): FinishReason {
+  if (hasToolCalls) return 'tool_calls';
+  switch (finishReason) {
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter';
+    default:
+      return 'stop';
+  }
+}
+
+function generateId(): string {
+  return `chatcmpl-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function timestamp(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Convert a Gemini response to OpenAI format
+ */
+export function fromGeminiResponse(response: GeminiResponse, model: string): ChatCompletionResponse {
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts || [];
+  const content = parts.map(p => p.text || '').join('');
+  const toolCalls: ToolCall[] = parts
+    .filter(p => p.functionCall)
+    .map((p, i) => ({
+      id: `call_${Date.now()}_${i}`,
+      type: 'function',
+      function: {
+        name: p.functionCall!.name,
+        arguments: JSON.stringify(p.functionCall!.args || {}),
+      },
+    }));
+  const usage = response.usageMetadata;
+
+  return {
+    id: generateId(),
+    object: 'chat.completion',
+    created: timestamp(),
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: toolCalls.length && !content ? null : content,
+        ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: mapGeminiFinishReason(candidate?.finishReason, toolCalls.length > 0),
+    }],
+    usage: usage ? {
+      prompt_tokens: usage.promptTokenCount,
+      completion_tokens: usage.candidatesTokenCount,
+      total_tokens: usage.totalTokenCount,
+    } : undefined,
+  };
+}
+
+/**
+ * Transform a Gemini SSE stream (`alt=sse`) to OpenAI SSE format
+ *
+ * Gemini delivers each `functionCall` complete in a single part, so every call is
+ * emitted as one `delta.tool_calls` entry carrying its id, name and arguments. Partial
+ * lines are buffered across packets. With `includeUsage`, the last `usageMetadata`
+ * seen is emitted as a final OpenAI usage chunk. Cancelling the result stops reading upstream.
+ */
+export function transformGeminiStream(geminiStream: ReadableStream<Uint8Array>, model: string, includeUsage: boolean): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const id = generateId();
+  let buffer = '';
+  let toolCallCount = 0;
+  let finished = false;
+  let usage: GeminiResponse['usageMetadata'];
+
+  const emit = (controller: TransformStreamDefaultController<Uint8Array>, delta: Record<string, unknown>, finishReason: FinishReason) => {
+    const chunk = {
+      id,
+      object: 'chat.completion.chunk',
+      created: timestamp(),
+      model,
+      choices: [{
+        index: 0,
+        delta,
+        finish_reason: finishReason,
+      }],
+    };
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+  };
+
+  const processLine = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!line.startsWith('data: ')) return;
+    const jsonStr = line.slice(6).trim();
+    if (!jsonStr) return;
+
+    try {
+      const data = JSON.parse(jsonStr) as GeminiResponse;
+      if (data.usageMetadata) usage = data.usageMetadata;
+      const candidate = data.candidates?.[0];
+      const parts = candidate?.content?.parts || [];
+
+      const content = parts.map(p => p.text || '').join('');
+      if (content) emit(controller, { content }, null);
+
+      for (const part of parts) {
+        if (!part.functionCall) continue;
+        const index = toolCallCount++;
+        emit(controller, {
+          tool_calls: [{
+            index,
+            id: `call_${Date.now()}_${index}`,
+            type: 'function',
+            function: {
+              name: part.functionCall.name,
+              arguments: JSON.stringify(part.functionCall.args || {}),
+            },
+          }],
+        }, null);
+      }
+
+      if (candidate?.finishReason && !finished) {
+        finished = true;
+        emit(controller, {}, mapGeminiFinishReason(candidate.finishReason, toolCallCount > 0));
+      }
+    } catch {
+      // Skip malformed data
+    }
+  };
+
+  return geminiStream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform: (chunk, controller) => {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) processLine(line, controller);
+    },
+    flush: (controller) => {
+      processLine(buffer, controller);
+      if (includeUsage && usage) {
+        const usageChunk = {
+          id,
+          object: 'chat.completion.chunk',
+          created: timestamp(),
+          model,
+          choices: [],
+          usage: {
+            prompt_tokens: usage.promptTokenCount || 0,
+            completion_tokens: usage.candidatesTokenCount || 0,
+            total_tokens: usage.totalTokenCount || 0,
+          },
+        };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(usageChunk)}\n\n`));
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+    },
+  }));
+}
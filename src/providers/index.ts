@@ -2,9 +2,49 @@
  * Provider Exports
  */
 
-export { AIProvider, BaseProvider } from './base';
+export { AIProvider, BaseProvider, onStreamEnd, parseImageUrl, type ImageLimits, type ImageSource } from './base';
 export { AzureProvider } from './azure';
 export { AzureFoundryProvider } from './azure-foundry';
 export { OpenAIProvider } from './openai';
+export { AnthropicProvider } from './anthropic';
+export { BedrockProvider } from './bedrock';
+export { signAwsRequest, type AwsCredentials, type SignableRequest } from './sigv4';
+export {
+  ANTHROPIC_IMAGE_LIMITS,
+  claudeSupportsVision,
+  toAnthropicMessages,
+  toAnthropicRequest,
+  fromAnthropicResponse,
+  mapAnthropicStopReason,
+  transformAnthropicStream,
+  type AnthropicContentBlock,
+  type AnthropicMessage,
+  type AnthropicResponse,
+  type AnthropicRequestOptions,
+} from './anthropic-format';
+export {
+  GEMINI_IMAGE_LIMITS,
+  geminiSupportsVision,
+  toGeminiMessages,
+  toGeminiRequest,
+  fromGeminiResponse,
+  mapGeminiFinishReason,
+  transformGeminiStream,
+  type GeminiPart,
+  type GeminiMessage,
+  type GeminiResponse,
+  type GeminiRequestOptions,
+} from './gemini-format';
 export { CloudflareProvider } from './cloudflare';
 export { VertexProvider, type VertexConfig } from './vertex';
+export { CustomProvider } from './custom';
+export { PresetProvider, PROVIDER_PRESETS, type ProviderPreset } from './presets';
+export { completionToStream } from './completion-stream';
+export { FallbackProvider, type FallbackTarget, type FallbackEvent, type FallbackProviderOptions } from './fallback';
+export {
+  LoadBalancedProvider,
+  type LoadBalancerTarget,
+  type LoadBalancingStrategy,
+  type LoadBalancerEvent,
+  type LoadBalancerOptions,
+} from './load-balancer';
@@ -0,0 +1,385 @@
+/**
+ * Load-Balanced Provider
+ *
+ * @description Spreads requests for one logical model across several
+ * deployments (e.g. the same Azure model in multiple regions) and tracks their
+ * health: a backend that keeps failing with rate-limit or provider errors is
+ * ejected for a cooldown, then probed back in with a single request.
+ */
+
+import type { AIProvider } from './base';
+import type { ChatCompletionRequest, ChatCompletionResponse, ChatOptions } from '../types';
+import { AIGatewayError, AIGatewayErrorCode } from '../types';
+
+/**
+ * A deployment in a load-balanced pool
+ */
+export interface LoadBalancerTarget {
+  /** Provider to call */
+  provider: AIProvider;
+  /** Model to request from this provider (overrides request.model) */
+  model?: string;
+  /** Relative share of traffic for weighted round-robin (default 1) */
+  weight?: number;
+  /** Label used in events (default: provider name and index) */
+  name?: string;
+}
+
+/** How the first backend for a request is chosen */
+export type LoadBalancingStrategy = 'weighted-round-robin' | 'least-in-flight' | 'latency';
+
+/**
+ * A backend health transition
+ */
+export interface LoadBalancerEvent {
+  /** Index of the target */
+  index: number;
+  /** Target label */
+  name: string;
+  /** Error that caused an ejection */
+  error?: AIGatewayError;
+}
+
+export interface LoadBalancerOptions {
+  /** Selection strategy (default: weighted-round-robin) */
+  strategy?: LoadBalancingStrategy;
+  /** Consecutive failures before a backend is ejected (default 3) */
+  maxFailures?: number;
+  /** Initial ejection time; doubles on each failed probe up to 10x (default 30s) */
+  cooldownMs?: number;
+  /** Error codes that count as failures and move on to the next backend (default: RATE_LIMIT_ERROR, PROVIDER_ERROR, NETWORK_ERROR) */
+  retryOn?: AIGatewayErrorCode[];
+  /** Called when a backend is ejected */
+  onEject?: (event: LoadBalancerEvent) => void;
+  /** Called when an ejected backend serves a request again */
+  onRecover?: (event: LoadBalancerEvent) => void;
+}
+
+/** Error codes that are worth retrying on another backend */
+const DEFAULT_RETRY_ON: AIGatewayErrorCode[] = [
+  AIGatewayErrorCode.RATE_LIMIT_ERROR,
+  AIGatewayErrorCode.PROVIDER_ERROR,
+  AIGatewayErrorCode.NETWORK_ERROR,
+];
+
+/** Weight of the newest sample in the latency moving average */
+const LATENCY_ALPHA = 0.3;
+
+/**
+ * Per-backend state (kept for the lifetime of the provider instance)
+ */
+interface BackendState {
+  /** Smooth weighted round-robin counter */
+  currentWeight: number;
+  inFlight: number;
+  /** Moving average of time to response (or to stream start) */
+  latencyMs?: number;
+  consecutiveFailures: number;
+  /** Ejected until this time (0 = healthy) */
+  ejectedUntil: number;
+  /** Current ejection length */
+  cooldownMs: number;
+  /** A probe request is running after the cooldown */
+  probing: boolean;
+}
+
+export class LoadBalancedProvider implements AIProvider {
+  readonly name = 'load-balancer';
+
+  private readonly targets: LoadBalancerTarget[];
+  private readonly state: BackendState[];
+  private readonly strategy: LoadBalancingStrategy;
+  private readonly maxFailures: number;
+  private readonly cooldownMs: number;
+  private readonly retryOn: AIGatewayErrorCode[];
+  private readonly onEject?: (event: LoadBalancerEvent) => void;
+  private readonly onRecover?: (event: LoadBalancerEvent) => void;
+
+  constructor(targets: LoadBalancerTarget[], options: LoadBalancerOptions = {}) {
+    if (targets.length === 0) {
+      throw new AIGatewayError('Load balancer requires at least one provider', {
+        status: 400,
+        code: AIGatewayErrorCode.CONFIG_ERROR,
+      });
+    }
+
+    this.targets = targets;
+    this.strategy = options.strategy ?? 'weighted-round-robin';
+    this.maxFailures = options.maxFailures ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+    this.retryOn = options.retryOn ?? DEFAULT_RETRY_ON;
+    this.onEject = options.onEject;
+    this.onRecover = options.onRecover;
+    this.state = targets.map(() => ({
+      currentWeight: 0,
+      inFlight: 0,
+      consecutiveFailures: 0,
+      ejectedUntil: 0,
+      cooldownMs: this.cooldownMs,
+      probing: false,
+    }));
+  }
+
+  /**
+   * Streaming is available if any target can stream
+   */
+  get supportsStreaming(): boolean {
+    return this.targets.some(t => t.provider.supportsStreaming && t.provider.chatStream);
+  }
+
+  /**
+   * Health snapshot of every backend
+   */
+  getHealth(now = Date.now()): Array<{ name: string; healthy: boolean; inFlight: number; latencyMs?: number; ejectedUntil?: number }> {
+    return this.targets.map((t, i) => {
+      const s = this.state[i];
+      return {
+        name: this.label(i),
+        healthy: s.ejectedUntil <= now,
+        inFlight: s.inFlight,
+        latencyMs: s.latencyMs,
+        ejectedUntil: s.ejectedUntil > now ? s.ejectedUntil : undefined,
+      };
+    });
+  }
+
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
+    const candidates = this.targets.map((_, i) => i);
+    return this.run(candidates, options, async (target, index, targetOptions) => {
+      this.state[index].inFlight++;
+      try {
+        return await target.provider.chat(this.withModel(request, target), targetOptions);
+      } finally {
+        this.state[index].inFlight--;
+      }
+    });
+  }
+
+  /**
+   * Stream chat completions
+   *
+   * Failover only happens while establishing the stream. A stream counts as
+   * in flight until it is fully read or cancelled.
+   */
+  async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ReadableStream> {
+    const candidates = this.targets
+      .map((t, i) => ({ t, i }))
+      .filter(({ t }) => t.provider.supportsStreaming && t.provider.chatStream)
+      .map(({ i }) => i);
+
+    if (candidates.length === 0) {
+      throw new AIGatewayError('No provider in the load-balanced pool supports streaming', {
+        status: 400,
+        code: AIGatewayErrorCode.INVALID_REQUEST,
+      });
+    }
+
+    return this.run(candidates, options, async (target, index, targetOptions) => {
+      const state = this.state[index];
+      state.inFlight++;
+      try {
+        const stream = await target.provider.chatStream!(this.withModel(request, target), targetOptions);
+        return this.trackStream(stream, () => state.inFlight--);
+      } catch (err) {
+        state.inFlight--;
+        throw err;
+      }
+    });
+  }
+
+  /**
+   * Try backends in balancing order until one succeeds, a non-retryable error
+   * occurs or the caller aborts. The backend that succeeds is reported through
+   * `options.onServed`, unless it reported one of its own (nested pools)
+   */
+  private async run<T>(
+    candidates: number[],
+    options: ChatOptions,
+    call: (target: LoadBalancerTarget, index: number, options: ChatOptions) => Promise<T>
+  ): Promise<T> {
+    let lastError: AIGatewayError | undefined;
+
+    for (const index of this.order(candidates)) {
+      const target = this.targets[index];
+      const startedAt = Date.now();
+      let reported = false;
+      const targetOptions: ChatOptions = {
+        ...options,
+        onServed: (served) => {
+          reported = true;
+          options.onServed?.(served);
+        },
+      };
+      try {
+        const result = await call(target, index, targetOptions);
+        this.recordSuccess(index, Date.now() - startedAt);
+        if (!reported) options.onServed?.({ provider: target.provider.name, model: target.model });
+        return result;
+      } catch (err) {
+        const error = this.normalizeError(err, target);
+        if (options.signal?.aborted || !this.retryOn.includes(error.code)) {
+          // Not the backend's fault: a probe can be retried by the next request
+          this.state[index].probing = false;
+          throw error;
+        }
+
+        this.recordFailure(index, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Order the candidates for one request. A backend whose cooldown has passed
+   * is probed first (one probe at a time), then the strategy's pick and the
+   * other healthy backends; if every backend is ejected, the ones closest to
+   * recovery are tried anyway
+   */
+  private order(candidates: number[], now = Date.now()): number[] {
+    const healthy = candidates.filter(i => this.state[i].ejectedUntil === 0);
+    const probe = candidates.find(i => {
+      const s = this.state[i];
+      return s.ejectedUntil !== 0 && s.ejectedUntil <= now && !s.probing;
+    });
+    if (probe !== undefined) this.state[probe].probing = true;
+
+    if (healthy.length === 0 && probe === undefined) {
+      return [...candidates].sort((a, b) => this.state[a].ejectedUntil - this.state[b].ejectedUntil);
+    }
+
+    const ordered: number[] = probe !== undefined ? [probe] : [];
+    if (healthy.length > 0) {
+      const first = this.pick(healthy);
+      ordered.push(first, ...healthy.filter(i => i !== first).sort((a, b) => this.weight(b) - this.weight(a)));
+    }
+    return ordered;
+  }
+
+  /**
+   * Choose the leading backend according to the strategy
+   */
+  private pick(available: number[]): number {
+    if (this.strategy === 'least-in-flight') {
+      // Fewest in-flight requests relative to weight
+      return available.reduce((best, i) =>
+        this.state[i].inFlight / this.weight(i) < this.state[best].inFlight / this.weight(best) ? i : best
+      );
+    }
+
+    if (this.strategy === 'latency') {
+      // Unmeasured backends are tried first, then the lowest weighted average latency
+      const unmeasured = available.find(i => this.state[i].latencyMs === undefined);
+      if (unmeasured !== undefined) return unmeasured;
+      return available.reduce((best, i) =>
+        this.state[i].latencyMs! / this.weight(i) < this.state[best].latencyMs! / this.weight(best) ? i : best
+      );
+    }
+
+    // Smooth weighted round-robin: even spread in proportion to the weights
+    let total = 0;
+    let best = available[0];
+    for (const i of available) {
+      const s = this.state[i];
+      s.currentWeight += this.weight(i);
+      total += this.weight(i);
+      if (s.currentWeight > this.state[best].currentWeight) best = i;
+    }
+    this.state[best].currentWeight -= total;
+    return best;
+  }
+
+  private recordSuccess(index: number, latencyMs: number): void {
+    const s = this.state[index];
+    s.latencyMs = s.latencyMs === undefined ? latencyMs : s.latencyMs + LATENCY_ALPHA * (latencyMs - s.latencyMs);
+    s.consecutiveFailures = 0;
+    if (s.ejectedUntil !== 0) {
+      s.ejectedUntil = 0;
+      s.cooldownMs = this.cooldownMs;
+      this.onRecover?.({ index, name: this.label(index) });
+    }
+    s.probing = false;
+  }
+
+  private recordFailure(index: number, error: AIGatewayError): void {
+    const s = this.state[index];
+    s.consecutiveFailures++;
+
+    if (s.probing) {
+      // Failed probe: eject again for longer
+      s.probing = false;
+      s.cooldownMs = Math.min(s.cooldownMs * 2, this.cooldownMs * 10);
+      s.ejectedUntil = Date.now() + s.cooldownMs;
+      this.onEject?.({ index, name: this.label(index), error });
+    } else if (s.ejectedUntil === 0 && s.consecutiveFailures >= this.maxFailures) {
+      s.ejectedUntil = Date.now() + s.cooldownMs;
+      this.onEject?.({ index, name: this.label(index), error });
+    }
+  }
+
+  /**
+   * Pass a stream through, calling onDone once when it ends, errors or is cancelled
+   */
+  private trackStream(stream: ReadableStream, onDone: () => void): ReadableStream {
+    const reader = stream.getReader();
+    let done = false;
+    const finish = () => {
+      if (!done) {
+        done = true;
+        onDone();
+      }
+    };
+
+    return new ReadableStream({
+      async pull(controller) {
+        try {
+          const { done: end, value } = await reader.read();
+          if (end) {
+            finish();
+            controller.close();
+            return;
+          }
+          controller.enqueue(value);
+        } catch (err) {
+          finish();
+          controller.error(err);
+        }
+      },
+      cancel(reason) {
+        finish();
+        return reader.cancel(reason);
+      },
+    });
+  }
+
+  private weight(index: number): number {
+    const weight = this.targets[index].weight ?? 1;
+    return weight > 0 ? weight : 1;
+  }
+
+  private label(index: number): string {
+    return this.targets[index].name ?? `${this.targets[index].provider.name}#${index}`;
+  }
+
+  /**
+   * Apply a target's model override to the request
+   */
+  private withModel(request: ChatCompletionRequest, target: LoadBalancerTarget): ChatCompletionRequest {
+    return target.model ? { ...request, model: target.model } : request;
+  }
+
+  /**
+   * Wrap unexpected errors; fetch rejects with TypeError on network failures
+   */
+  private normalizeError(err: unknown, target: LoadBalancerTarget): AIGatewayError {
+    if (err instanceof AIGatewayError) return err;
+
+    const message = err instanceof Error ? err.message : String(err);
+    return new AIGatewayError(`${target.provider.name} request failed: ${message}`, {
+      status: 502,
+      code: err instanceof TypeError ? AIGatewayErrorCode.NETWORK_ERROR : AIGatewayErrorCode.UNKNOWN_ERROR,
+      raw: err,
+    });
+  }
+}
@@ -6,7 +6,7 @@
  */
 
 import { BaseProvider } from './base';
-import type { OpenAIConfig, ChatCompletionRequest, ChatCompletionResponse } from '../types';
+import type { OpenAIConfig, ChatCompletionRequest, ChatCompletionResponse, ChatOptions } from '../types';
 import { AIGatewayErrorCode } from '../types';
 
 export class OpenAIProvider extends BaseProvider {
@@ -53,30 +53,29 @@ export class OpenAIProvider extends BaseProvider {
   private buildRequestBody(request: ChatCompletionRequest, stream: boolean): string {
     const body: Record<string, unknown> = {
       model: request.model || this.defaultModel,
-      messages: request.messages,
+      messages: this.toUpstreamMessages(request.messages),
       stream,
     };
 
     if (request.max_tokens !== undefined) body.max_tokens = request.max_tokens;
     if (request.temperature !== undefined) body.temperature = request.temperature;
     if (request.top_p !== undefined) body.top_p = request.top_p;
+    if (request.tools?.length) body.tools = request.tools;
+    if (request.tool_choice !== undefined) body.tool_choice = request.tool_choice;
+    if (request.parallel_tool_calls !== undefined) body.parallel_tool_calls = request.parallel_tool_calls;
+    if (stream && request.stream_options) body.stream_options = request.stream_options;
 
     return JSON.stringify(body);
   }
 
-  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
     const url = `${this.baseUrl}/chat/completions`;
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers: this.buildHeaders(),
       body: this.buildRequestBody(request, false),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw this.createError(`OpenAI error: ${errorText}`, response.status, errorText);
-    }
+    }, 'OpenAI error', { signal: options.signal, timeout: request.timeout });
 
     return await response.json() as ChatCompletionResponse;
   }
@@ -84,19 +83,14 @@ export class OpenAIProvider extends BaseProvider {
   /**
    * Stream chat completions
    */
-  async chatStream(request: ChatCompletionRequest): Promise<ReadableStream> {
+  async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ReadableStream> {
     const url = `${this.baseUrl}/chat/completions`;
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers: this.buildHeaders(),
       body: this.buildRequestBody(request, true),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw this.createError(`OpenAI error: ${errorText}`, response.status, errorText);
-    }
+    }, 'OpenAI error', { signal: options.signal, timeout: request.timeout, stream: true });
 
     if (!response.body) {
       throw this.createError('No response body for streaming', 500, null, AIGatewayErrorCode.PROVIDER_ERROR);
@@ -0,0 +1,201 @@
+/**
+ * Provider Presets
+ *
+ * @description Mistral, Groq, DeepSeek and OpenRouter: OpenAI-compatible APIs with vendor quirks,
+ * served by CustomProvider with per-vendor parameter filtering and response normalization.
+ * Reasoning text is returned as `reasoning_content` whatever field the vendor uses.
+ */
+
+import { CustomProvider } from './custom';
+import type { ProviderCapabilities } from '../registry';
+import type { ChatCompletionResponse, ModelQuirks, PresetConfig, PresetType } from '../types';
+import { AIGatewayErrorCode } from '../types';
+
+export interface ProviderPreset {
+  description: string;
+  baseUrl: string;
+  defaultModel: string;
+  /** Well-known models, listed by model catalogs */
+  models: string[];
+  capabilities: ProviderCapabilities;
+  /** Parameter handling per model pattern (CustomConfig.modelQuirks format) */
+  modelQuirks: Record<string, ModelQuirks>;
+  /** Value-level request fixes that quirks cannot express */
+  prepareBody?: (body: Record<string, unknown>) => void;
+  /** Response field carrying reasoning text, renamed to reasoning_content */
+  reasoningField?: string;
+  /** Message content may be a list of typed chunks ("text", "thinking") */
+  contentChunks?: boolean;
+  /** Stream chunk field whose `usage` is copied to the chunk's usage */
+  streamUsageField?: string;
+}
+
+/** Typed content chunk of Mistral reasoning models */
+interface ContentChunk {
+  type: string;
+  text?: string;
+  thinking?: { type: string; text?: string }[];
+}
+
+/** SSE chunk as far as normalization needs it */
+interface StreamChunk {
+  choices?: { delta?: Record<string, unknown> }[];
+  usage?: unknown;
+  [field: string]: unknown;
+}
+
+export const PROVIDER_PRESETS: Record<PresetType, ProviderPreset> = {
+  mistral: {
+    description: 'Mistral AI API',
+    baseUrl: 'https://api.mistral.ai/v1',
+    defaultModel: 'mistral-large-latest',
+    models: ['mistral-large-latest', 'mistral-medium-latest', 'mistral-small-latest', 'codestral-latest', 'magistral-medium-latest'],
+    capabilities: { streaming: true, tools: true, vision: true },
+    // Mistral rejects unknown fields; usage is always part of the last stream chunk
+    modelQuirks: { '*': { drop: ['stream_options'] } },
+    prepareBody: body => {
+      if (body.tool_choice === 'required') body.tool_choice = 'any';
+    },
+    contentChunks: true,
+  },
+  groq: {
+    description: 'Groq API',
+    baseUrl: 'https://api.groq.com/openai/v1',
+    defaultModel: 'llama-3.3-70b-versatile',
+    models: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'openai/gpt-oss-120b', 'qwen/qwen3-32b'],
+    capabilities: { streaming: true, tools: true, vision: true },
+    // max_tokens is deprecated in favor of max_completion_tokens
+    modelQuirks: { '*': { rename: { max_tokens: 'max_completion_tokens' } } },
+    reasoningField: 'reasoning',
+    streamUsageField: 'x_groq',
+  },
+  deepseek: {
+    description: 'DeepSeek API',
+    baseUrl: 'https://api.deepseek.com/v1',
+    defaultModel: 'deepseek-chat',
+    models: ['deepseek-chat', 'deepseek-reasoner'],
+    capabilities: { streaming: true, tools: true, vision: false },
+    // The reasoner ignores sampling parameters
+    modelQuirks: { 'deepseek-reasoner': { drop: ['temperature', 'top_p'] } },
+  },
+  openrouter: {
+    description: 'OpenRouter (models of many vendors behind one API)',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    defaultModel: 'openai/gpt-4o-mini',
+    models: ['openai/gpt-4o', 'openai/gpt-4o-mini', 'anthropic/claude-sonnet-4.5', 'google/gemini-2.5-flash', 'meta-llama/llama-3.3-70b-instruct'],
+    capabilities: { streaming: true, tools: true, vision: true },
+    modelQuirks: {},
+    reasoningField: 'reasoning',
+  },
+};
+
+/**
+ * Merge user quirks over a preset's: drops are combined, renames and extras override
+ */
+function mergeQuirks(base: Record<string, ModelQuirks>, overrides: Record<string, ModelQuirks> = {}): Record<string, ModelQuirks> {
+  const merged = { ...base };
+  for (const [pattern, quirks] of Object.entries(overrides)) {
+    const existing = merged[pattern] ?? {};
+    merged[pattern] = {
+      drop: [...(existing.drop ?? []), ...(quirks.drop ?? [])],
+      rename: { ...existing.rename, ...quirks.rename },
+      extra: { ...existing.extra, ...quirks.extra },
+    };
+  }
+  return merged;
+}
+
+export class PresetProvider extends CustomProvider {
+  private readonly preset: ProviderPreset;
+
+  constructor(config: PresetConfig) {
+    const preset = PROVIDER_PRESETS[config.type];
+    super({
+      type: 'custom',
+      name: config.type,
+      baseUrl: config.baseUrl || preset.baseUrl,
+      apiKey: config.apiKey,
+      headers: config.headers,
+      model: config.model || preset.defaultModel,
+      modelQuirks: mergeQuirks(preset.modelQuirks, config.modelQuirks),
+      retry: config.retry,
+    });
+    this.preset = preset;
+
+    if (!config.apiKey) {
+      throw this.createError(`${config.type} API key is required`, 400, null, AIGatewayErrorCode.CONFIG_ERROR);
+    }
+  }
+
+  protected prepareBody(body: Record<string, unknown>): void {
+    this.preset.prepareBody?.(body);
+  }
+
+  /**
+   * Normalize a response message or stream delta in place
+   */
+  private normalizeMessage(message: Record<string, unknown> | undefined): void {
+    if (!message) return;
+
+    const field = this.preset.reasoningField;
+    if (field && typeof message[field] === 'string') {
+      message.reasoning_content = message[field];
+      delete message[field];
+    }
+
+    if (this.preset.contentChunks && Array.isArray(message.content)) {
+      let text = '';
+      let reasoning = '';
+      for (const chunk of message.content as ContentChunk[]) {
+        if (chunk.type === 'text') text += chunk.text || '';
+        else if (chunk.type === 'thinking') reasoning += (chunk.thinking || []).map(t => t.text || '').join('');
+      }
+      message.content = text;
+      if (reasoning) message.reasoning_content = `${message.reasoning_content ?? ''}${reasoning}`;
+    }
+  }
+
+  protected normalizeResponse(response: ChatCompletionResponse): ChatCompletionResponse {
+    for (const choice of response.choices ?? []) {
+      this.normalizeMessage(choice.message as unknown as Record<string, unknown>);
+    }
+    return response;
+  }
+
+  protected normalizeStream(stream: ReadableStream): ReadableStream {
+    const { reasoningField, contentChunks, streamUsageField } = this.preset;
+    if (!reasoningField && !contentChunks && !streamUsageField) return stream;
+
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const processLine = (line: string): string => {
+      if (!line.startsWith('data: ')) return line;
+      let chunk: StreamChunk;
+      try {
+        chunk = JSON.parse(line.slice(6));
+      } catch {
+        // [DONE] and anything else that is not JSON passes through
+        return line;
+      }
+      for (const choice of chunk.choices ?? []) this.normalizeMessage(choice.delta);
+      const vendorUsage = streamUsageField ? (chunk[streamUsageField] as { usage?: unknown } | undefined)?.usage : undefined;
+      if (vendorUsage && !chunk.usage) chunk.usage = vendorUsage;
+      return `data: ${JSON.stringify(chunk)}`;
+    };
+
+    return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        if (lines.length) controller.enqueue(encoder.encode(lines.map(processLine).join('\n') + '\n'));
+      },
+      flush: (controller) => {
+        buffer += decoder.decode();
+        if (buffer) controller.enqueue(encoder.encode(processLine(buffer)));
+      },
+    }));
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * AWS Signature Version 4
+ *
+ * @description Request signing for AWS APIs with WebCrypto, so it runs in Workers and other
+ * edge runtimes without the AWS SDK
+ * @see https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv-create-signed-request.html
+ */
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary credentials (STS) */
+  sessionToken?: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/**
+ * RFC 3986 percent-encoding (encodeURIComponent leaves !'()* alone)
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Canonical URI: every path segment encoded once more. The request path is already
+ * encoded, so e.g. the ":" of a Bedrock model ID is sent as %3A and signed as %253A.
+ */
+function canonicalPath(pathname: string): string {
+  return pathname.split('/').map(uriEncode).join('/') || '/';
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params]
+    .map(([k, v]) => [uriEncode(k), uriEncode(v)])
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+}
+
+/**
+ * Sign a request for an AWS service
+ * @returns The request headers plus x-amz-date, x-amz-security-token (temporary credentials) and
+ * authorization. The host header is signed but not returned; fetch derives it from the URL.
+ */
+export async function signAwsRequest(
+  request: SignableRequest,
+  credentials: AwsCredentials,
+  region: string,
+  service: string,
+  now: Date = new Date()
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${region}/${service}/aws4_request`;
+
+  const headers: Record<string, string> = { ...request.headers, host: url.host, 'x-amz-date': amzDate };
+  if (credentials.sessionToken) headers['x-amz-security-token'] = credentials.sessionToken;
+
+  const canonicalHeaders = Object.entries(headers)
+    .map(([k, v]) => [k.toLowerCase(), v.trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+  const signedHeaders = canonicalHeaders.map(([k]) => k).join(';');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(url.pathname),
+    canonicalQuery(url.searchParams),
+    canonicalHeaders.map(([k, v]) => `${k}:${v}\n`).join(''),
+    signedHeaders,
+    await sha256Hex(request.body ?? ''),
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = await hmac(encoder.encode(`AWS4${credentials.secretAccessKey}`), date);
+  const regionKey = await hmac(dateKey, region);
+  const serviceKey = await hmac(regionKey, service);
+  const signingKey = await hmac(serviceKey, 'aws4_request');
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  delete headers.host;
+  headers['authorization'] =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
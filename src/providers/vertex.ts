@@ -6,7 +6,15 @@
  */
 
 import { BaseProvider } from './base';
-import type { ChatCompletionRequest, ChatCompletionResponse, Message } from '../types';
+import {
+  GEMINI_IMAGE_LIMITS,
+  geminiSupportsVision,
+  toGeminiRequest,
+  fromGeminiResponse,
+  transformGeminiStream,
+  type GeminiResponse,
+} from './gemini-format';
+import type { ChatCompletionRequest, ChatCompletionResponse, ChatOptions, RetryConfig } from '../types';
 import { AIGatewayErrorCode } from '../types';
 
 export interface VertexConfig {
@@ -21,26 +29,8 @@ export interface VertexConfig {
   geminiApiKey?: string;
   /** Default model */
   defaultModel?: string;
-}
-
-interface GeminiMessage {
-  role: 'user' | 'model';
-  parts: { text: string }[];
-}
-
-interface GeminiResponse {
-  candidates?: {
-    content: {
-      role: string;
-      parts: { text: string }[];
-    };
-    finishReason: string;
-  }[];
-  usageMetadata?: {
-    promptTokenCount: number;
-    candidatesTokenCount: number;
-    totalTokenCount: number;
-  };
+  /** Retry policy */
+  retry?: RetryConfig;
 }
 
 export class VertexProvider extends BaseProvider {
@@ -70,26 +60,6 @@ export class VertexProvider extends BaseProvider {
     this.defaultModel = config.defaultModel || 'gemini-2.0-flash';
   }
 
-  /**
-   * Convert OpenAI-style messages to Gemini format
-   */
-  private convertMessages(messages: Message[]): GeminiMessage[] {
-    return messages
-      .filter(m => m.role !== 'system') // Handle system separately
-      .map(m => ({
-        role: m.role === 'assistant' ? 'model' : 'user',
-        parts: [{ text: typeof m.content === 'string' ? m.content : JSON.stringify(m.content) }]
-      }));
-  }
-
-  /**
-   * Extract system instruction from messages
-   */
-  private getSystemInstruction(messages: Message[]): string | undefined {
-    const systemMsg = messages.find(m => m.role === 'system');
-    return systemMsg ? (typeof systemMsg.content === 'string' ? systemMsg.content : JSON.stringify(systemMsg.content)) : undefined;
-  }
-
   /**
    * Generate JWT from Service Account credentials
    */
@@ -191,55 +161,16 @@ export class VertexProvider extends BaseProvider {
   /**
    * Build request body in Gemini format
    */
-  private buildRequestBody(request: ChatCompletionRequest): string {
-    const body: Record<string, unknown> = {
-      contents: this.convertMessages(request.messages),
-    };
-
-    const systemInstruction = this.getSystemInstruction(request.messages);
-    if (systemInstruction) {
-      body.systemInstruction = { parts: [{ text: systemInstruction }] };
-    }
-
-    if (request.max_tokens || request.temperature !== undefined || request.top_p !== undefined) {
-      body.generationConfig = {};
-      if (request.max_tokens) (body.generationConfig as Record<string, unknown>).maxOutputTokens = request.max_tokens;
-      if (request.temperature !== undefined) (body.generationConfig as Record<string, unknown>).temperature = request.temperature;
-      if (request.top_p !== undefined) (body.generationConfig as Record<string, unknown>).topP = request.top_p;
+  private buildRequestBody(request: ChatCompletionRequest, model: string): string {
+    if (!geminiSupportsVision(model) && this.hasImageContent(request.messages)) {
+      throw this.createError(`Model '${model}' does not support image input`, 400, null, AIGatewayErrorCode.INVALID_REQUEST);
     }
-
-    return JSON.stringify(body);
+    return JSON.stringify(toGeminiRequest(request, {
+      parseImage: (url) => this.parseImageUrl(url, GEMINI_IMAGE_LIMITS),
+    }));
   }
 
-  /**
-   * Convert Gemini response to OpenAI format
-   */
-  private convertResponse(geminiResponse: GeminiResponse, model: string): ChatCompletionResponse {
-    const content = geminiResponse.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    const usage = geminiResponse.usageMetadata;
-
-    return {
-      id: this.generateId(),
-      object: 'chat.completion',
-      created: this.getTimestamp(),
-      model,
-      choices: [{
-        index: 0,
-        message: {
-          role: 'assistant',
-          content,
-        },
-        finish_reason: 'stop',
-      }],
-      usage: usage ? {
-        prompt_tokens: usage.promptTokenCount,
-        completion_tokens: usage.candidatesTokenCount,
-        total_tokens: usage.totalTokenCount,
-      } : undefined,
-    };
-  }
-
-  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+  async chat(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ChatCompletionResponse> {
     const model = request.model || this.defaultModel;
     
     let url: string;
@@ -261,25 +192,20 @@ export class VertexProvider extends BaseProvider {
       throw this.createError('No valid credentials configured (need geminiApiKey)', 400, null, AIGatewayErrorCode.CONFIG_ERROR);
     }
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers,
-      body: this.buildRequestBody(request),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw this.createError(`Gemini API error: ${errorText}`, response.status, errorText);
-    }
+      body: this.buildRequestBody(request, model),
+    }, 'Gemini API error', { signal: options.signal, timeout: request.timeout });
 
     const geminiResponse = await response.json() as GeminiResponse;
-    return this.convertResponse(geminiResponse, model);
+    return fromGeminiResponse(geminiResponse, model);
   }
 
   /**
    * Stream chat completions
    */
-  async chatStream(request: ChatCompletionRequest): Promise<ReadableStream> {
+  async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}): Promise<ReadableStream> {
     const model = request.model || this.defaultModel;
     
     let url: string;
@@ -299,55 +225,17 @@ export class VertexProvider extends BaseProvider {
       throw this.createError('No valid credentials configured', 400, null, AIGatewayErrorCode.CONFIG_ERROR);
     }
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers,
-      body: this.buildRequestBody(request),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw this.createError(`Vertex/Gemini streaming error: ${errorText}`, response.status, errorText);
-    }
+      body: this.buildRequestBody(request, model),
+    }, 'Vertex/Gemini streaming error', { signal: options.signal, timeout: request.timeout, stream: true });
 
     if (!response.body) {
       throw this.createError('No response body for streaming', 500, null, AIGatewayErrorCode.PROVIDER_ERROR);
     }
 
     // Transform Gemini SSE to OpenAI SSE format
-    const transformer = new TransformStream({
-      transform: (chunk, controller) => {
-        const text = new TextDecoder().decode(chunk);
-        const lines = text.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6)) as GeminiResponse;
-              const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-              
-              if (content) {
-                const openaiChunk = {
-                  id: this.generateId(),
-                  object: 'chat.completion.chunk',
-                  created: this.getTimestamp(),
-                  model,
-                  choices: [{
-                    index: 0,
-                    delta: { content },
-                    finish_reason: null,
-                  }],
-                };
-                controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openaiChunk)}\n\n`));
-              }
-            } catch {
-              // Skip malformed data
-            }
-          }
-        }
-      },
-    });
-
-    return response.body.pipeThrough(transformer);
+    return transformGeminiStream(response.body, model, request.stream_options?.include_usage === true);
   }
 }
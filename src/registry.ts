@@ -0,0 +1,354 @@
+/**
+ * Provider Registry
+ *
+ * @description Maps provider types to factories, config schemas and capability declarations.
+ * The built-in providers are registered on load; applications add in-house providers with
+ * registerProvider and create any of them through createProvider.
+ *
+ * @example
+ * ```typescript
+ * registerProvider<AcmeConfig>('acme', config => new AcmeProvider(config), {
+ *   schema: { fields: { apiKey: { type: 'string', required: true, secret: true } } },
+ *   capabilities: { streaming: true, tools: false, vision: false },
+ *   models: ['acme-large'],
+ * });
+ *
+ * const provider = createProvider({ type: 'acme', apiKey: '...' });
+ * ```
+ */
+
+import type {
+  AnyProviderConfig,
+  AnthropicConfig,
+  AzureConfig,
+  AzureFoundryConfig,
+  BedrockConfig,
+  CloudflareConfig,
+  CustomConfig,
+  OpenAIConfig,
+  PresetConfig,
+  PresetType,
+  RetryConfig,
+  VertexConfig,
+} from './types';
+import { AIGatewayError, AIGatewayErrorCode } from './types';
+import type { AIProvider } from './providers/base';
+import { AzureProvider } from './providers/azure';
+import { AzureFoundryProvider } from './providers/azure-foundry';
+import { OpenAIProvider } from './providers/openai';
+import { AnthropicProvider } from './providers/anthropic';
+import { BedrockProvider } from './providers/bedrock';
+import { CloudflareProvider } from './providers/cloudflare';
+import { VertexProvider } from './providers/vertex';
+import { CustomProvider } from './providers/custom';
+import { PresetProvider, PROVIDER_PRESETS } from './providers/presets';
+
+/**
+ * Config of a provider registered at runtime (built-in providers use their typed configs)
+ */
+export interface RegisteredProviderConfig {
+  type: string;
+  retry?: RetryConfig;
+  [field: string]: unknown;
+}
+
+/**
+ * One config field of a provider schema
+ */
+export interface ConfigField {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  required?: boolean;
+  /** Holds a credential */
+  secret?: boolean;
+  description?: string;
+}
+
+/**
+ * Declared config schema, checked by createProvider before the factory runs
+ */
+export interface ProviderConfigSchema {
+  /** Fields besides `type` and `retry`; undeclared fields are passed through unchecked */
+  fields: Record<string, ConfigField>;
+  /** Groups of fields of which at least one must be set */
+  requireOneOf?: string[][];
+}
+
+/**
+ * What a provider supports, for catalogs and routing decisions
+ */
+export interface ProviderCapabilities {
+  streaming: boolean;
+  tools: boolean;
+  /** Image input (on at least some models) */
+  vision: boolean;
+}
+
+export type ProviderFactory<C> = (config: C) => AIProvider;
+
+export interface ProviderRegistrationOptions {
+  schema?: ProviderConfigSchema;
+  capabilities?: Partial<ProviderCapabilities>;
+  description?: string;
+  /** Models the provider serves, listed by model catalogs */
+  models?: string[];
+  /** Replace an existing registration of the same type instead of throwing */
+  override?: boolean;
+}
+
+export interface ProviderRegistration {
+  type: string;
+  factory: ProviderFactory<RegisteredProviderConfig>;
+  schema: ProviderConfigSchema;
+  capabilities: ProviderCapabilities;
+  description?: string;
+  models: string[];
+  /** True for the providers shipped with this package */
+  builtIn: boolean;
+}
+
+const registry = new Map<string, ProviderRegistration>();
+
+/**
+ * Register a provider type
+ * @throws {AIGatewayError} CONFIG_ERROR if the type is already registered and `override` is not set
+ */
+export function registerProvider<C extends { type: string }>(
+  type: C['type'],
+  factory: ProviderFactory<C>,
+  options: ProviderRegistrationOptions = {}
+): void {
+  const existing = registry.get(type);
+  if (existing && !options.override) {
+    throw new AIGatewayError(`Provider type '${type}' is already registered`, {
+      status: 500,
+      code: AIGatewayErrorCode.CONFIG_ERROR,
+    });
+  }
+
+  registry.set(type, {
+    type,
+    factory: factory as unknown as ProviderFactory<RegisteredProviderConfig>,
+    schema: options.schema ?? { fields: {} },
+    capabilities: { streaming: false, tools: false, vision: false, ...options.capabilities },
+    description: options.description,
+    models: options.models ?? [],
+    builtIn: false,
+  });
+}
+
+/**
+ * Remove a provider type; returns false if it was not registered
+ */
+export function unregisterProvider(type: string): boolean {
+  return registry.delete(type);
+}
+
+export function getProviderRegistration(type: string): ProviderRegistration | undefined {
+  return registry.get(type);
+}
+
+/**
+ * All registered provider types, built-in ones first
+ */
+export function listProviders(): ProviderRegistration[] {
+  return [...registry.values()];
+}
+
+/**
+ * Check a config against its provider's schema; returns errors such as "apiKey is required"
+ */
+export function validateProviderConfig(config: unknown): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return ['config must be an object'];
+  const c = config as Record<string, unknown>;
+
+  const registration = typeof c.type === 'string' ? registry.get(c.type) : undefined;
+  if (!registration) {
+    return [`type must be one of ${[...registry.keys()].join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  if (c.retry !== undefined && (!c.retry || typeof c.retry !== 'object')) errors.push('retry must be an object');
+  const isSet = (field: string) => c[field] !== undefined && c[field] !== null && c[field] !== '';
+  for (const [field, spec] of Object.entries(registration.schema.fields)) {
+    if (!isSet(field)) {
+      if (spec.required) errors.push(`${field} is required`);
+      continue;
+    }
+    const actual = Array.isArray(c[field]) ? 'array' : typeof c[field];
+    if (actual !== spec.type) errors.push(`${field} must be a ${spec.type}`);
+  }
+  for (const group of registration.schema.requireOneOf ?? []) {
+    if (!group.some(isSet)) errors.push(`${group.join(' or ')} is required`);
+  }
+  return errors;
+}
+
+/**
+ * Create a provider instance from configuration
+ * @throws {AIGatewayError} CONFIG_ERROR for unknown types or configs that fail the schema
+ */
+export function createProvider(config: AnyProviderConfig | RegisteredProviderConfig): AIProvider {
+  const registration = registry.get(config.type);
+  if (!registration) {
+    throw new AIGatewayError(`Unknown provider type: ${config.type}`, { status: 400, code: AIGatewayErrorCode.CONFIG_ERROR });
+  }
+
+  const errors = validateProviderConfig(config);
+  if (errors.length) {
+    throw new AIGatewayError(`Invalid ${config.type} provider config: ${errors.join('; ')}`, {
+      status: 400,
+      code: AIGatewayErrorCode.CONFIG_ERROR,
+    });
+  }
+  return registration.factory(config as RegisteredProviderConfig);
+}
+
+/** Register a provider shipped with this package */
+function registerBuiltIn<C extends AnyProviderConfig>(
+  type: C['type'],
+  factory: ProviderFactory<C>,
+  options: Required<Pick<ProviderRegistrationOptions, 'schema' | 'capabilities' | 'description'>> & Pick<ProviderRegistrationOptions, 'models'>
+): void {
+  registerProvider<C>(type, factory, options);
+  registry.get(type)!.builtIn = true;
+}
+
+registerBuiltIn<AzureConfig>('azure', config => new AzureProvider(config), {
+  description: 'Azure OpenAI Service (deployed models)',
+  capabilities: { streaming: true, tools: true, vision: true },
+  schema: {
+    fields: {
+      endpoint: { type: 'string', required: true },
+      apiKey: { type: 'string', required: true, secret: true },
+      deployment: { type: 'string', required: true },
+      apiVersion: { type: 'string' },
+    },
+  },
+});
+
+registerBuiltIn<AzureFoundryConfig>('azure-foundry', config => new AzureFoundryProvider(config), {
+  description: 'Azure AI Foundry (OpenAI and Claude models)',
+  capabilities: { streaming: true, tools: true, vision: true },
+  schema: {
+    fields: {
+      endpoint: { type: 'string', required: true },
+      apiKey: { type: 'string', required: true, secret: true },
+      model: { type: 'string' },
+    },
+  },
+});
+
+registerBuiltIn<OpenAIConfig>('openai', config => new OpenAIProvider(config), {
+  description: 'OpenAI API',
+  capabilities: { streaming: true, tools: true, vision: true },
+  schema: {
+    fields: {
+      apiKey: { type: 'string', required: true, secret: true },
+      baseUrl: { type: 'string' },
+      organization: { type: 'string' },
+    },
+  },
+});
+
+registerBuiltIn<AnthropicConfig>('anthropic', config => new AnthropicProvider(config), {
+  description: 'Anthropic API (Claude models)',
+  capabilities: { streaming: true, tools: true, vision: true },
+  schema: {
+    fields: {
+      apiKey: { type: 'string', required: true, secret: true },
+      baseUrl: { type: 'string' },
+      version: { type: 'string' },
+      beta: { type: 'array' },
+      model: { type: 'string' },
+      maxTokens: { type: 'number' },
+    },
+  },
+  models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5', 'claude-3-5-haiku-latest'],
+});
+
+registerBuiltIn<BedrockConfig>('bedrock', config => new BedrockProvider(config), {
+  description: 'Amazon Bedrock (Converse API)',
+  capabilities: { streaming: true, tools: true, vision: true },
+  schema: {
+    fields: {
+      region: { type: 'string', required: true },
+      accessKeyId: { type: 'string', required: true, secret: true },
+      secretAccessKey: { type: 'string', required: true, secret: true },
+      sessionToken: { type: 'string', secret: true },
+      endpoint: { type: 'string' },
+      model: { type: 'string' },
+    },
+  },
+  models: [
+    'anthropic.claude-3-5-sonnet-20240620-v1:0',
+    'anthropic.claude-3-5-haiku-20241022-v1:0',
+    'amazon.nova-pro-v1:0',
+    'amazon.nova-lite-v1:0',
+    'meta.llama3-1-70b-instruct-v1:0',
+    'mistral.mistral-large-2407-v1:0',
+  ],
+});
+
+registerBuiltIn<CloudflareConfig>('cloudflare', config => new CloudflareProvider(config), {
+  description: 'Cloudflare Workers AI',
+  capabilities: { streaming: false, tools: true, vision: false },
+  schema: {
+    fields: {
+      accountId: { type: 'string', required: true },
+      apiToken: { type: 'string', required: true, secret: true },
+      model: { type: 'string' },
+    },
+  },
+});
+
+registerBuiltIn<VertexConfig>('vertex', config => new VertexProvider(config), {
+  description: 'Google Vertex AI, or the Gemini API with an API key',
+  capabilities: { streaming: true, tools: true, vision: true },
+  schema: {
+    fields: {
+      projectId: { type: 'string' },
+      region: { type: 'string' },
+      serviceAccountJson: { type: 'string', secret: true },
+      geminiApiKey: { type: 'string', secret: true },
+      defaultModel: { type: 'string' },
+    },
+    requireOneOf: [['projectId', 'geminiApiKey']],
+  },
+});
+
+registerBuiltIn<CustomConfig>('custom', config => new CustomProvider(config), {
+  description: 'Any OpenAI-compatible endpoint (vLLM, Ollama, LM Studio, TGI, LiteLLM)',
+  capabilities: { streaming: true, tools: true, vision: true },
+  schema: {
+    fields: {
+      baseUrl: { type: 'string', required: true },
+      headers: { type: 'object' },
+      apiKey: { type: 'string', secret: true },
+      authHeader: { type: 'string' },
+      authScheme: { type: 'string' },
+      chatPath: { type: 'string' },
+      model: { type: 'string' },
+      name: { type: 'string' },
+      streaming: { type: 'boolean' },
+      modelQuirks: { type: 'object' },
+    },
+  },
+});
+
+for (const type of Object.keys(PROVIDER_PRESETS) as PresetType[]) {
+  const preset = PROVIDER_PRESETS[type];
+  registerBuiltIn<PresetConfig>(type, config => new PresetProvider(config), {
+    description: preset.description,
+    capabilities: preset.capabilities,
+    schema: {
+      fields: {
+        apiKey: { type: 'string', required: true, secret: true },
+        baseUrl: { type: 'string' },
+        model: { type: 'string' },
+        headers: { type: 'object' },
+        modelQuirks: { type: 'object' },
+      },
+    },
+    models: preset.models,
+  });
+}
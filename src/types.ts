@@ -6,7 +6,19 @@
  */
 
 /** Supported AI provider types */
-export type ProviderType = 'azure' | 'azure-foundry' | 'openai' | 'cloudflare' | 'vertex' | 'custom';
+export type ProviderType =
+  | 'azure'
+  | 'azure-foundry'
+  | 'openai'
+  | 'anthropic'
+  | 'bedrock'
+  | 'cloudflare'
+  | 'vertex'
+  | 'custom'
+  | PresetType;
+
+/** OpenAI-compatible vendors with a built-in preset */
+export type PresetType = 'mistral' | 'groq' | 'deepseek' | 'openrouter';
 
 /** Supported message roles in chat completions */
 export type MessageRole = 'system' | 'user' | 'assistant' | 'tool';
@@ -19,11 +31,16 @@ export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls' |
  */
 export interface Message {
   role: MessageRole;
-  content: string | ContentPart[];
+  /** Message content (may be null for assistant messages that only carry tool calls) */
+  content: string | ContentPart[] | null;
   /** Tool call ID (for tool role messages) */
   tool_call_id?: string;
   /** Name of the function/tool */
   name?: string;
+  /** Tool calls requested by the assistant */
+  tool_calls?: ToolCall[];
+  /** Reasoning text of reasoning models (assistant responses from provider presets; left out of upstream requests) */
+  reasoning_content?: string;
 }
 
 /**
@@ -38,6 +55,41 @@ export interface ContentPart {
   };
 }
 
+/**
+ * Function tool definition (OpenAI format)
+ */
+export interface Tool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    /** JSON Schema describing the function arguments */
+    parameters?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Controls which (if any) tool the model may call
+ */
+export type ToolChoice =
+  | 'none'
+  | 'auto'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+/**
+ * A tool call emitted by the assistant
+ */
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments */
+    arguments: string;
+  };
+}
+
 /**
  * Request for chat completion
  */
@@ -48,10 +100,31 @@ export interface ChatCompletionRequest {
   temperature?: number;
   top_p?: number;
   stream?: boolean;
+  /** Streaming options; `include_usage` adds a final chunk with token usage */
+  stream_options?: { include_usage?: boolean };
+  /** Tools the model may call */
+  tools?: Tool[];
+  /** Tool selection strategy */
+  tool_choice?: ToolChoice;
+  /** Allow the model to emit several tool calls in one turn */
+  parallel_tool_calls?: boolean;
   /** Request timeout in milliseconds */
   timeout?: number;
 }
 
+/**
+ * Per-call options that are not part of the request payload
+ */
+export interface ChatOptions {
+  /** Cancels the upstream call, e.g. when the client disconnects */
+  signal?: AbortSignal;
+  /**
+   * Called with the backend that served the call. Composite providers
+   * (fallback chains, load-balanced pools) report the target they used.
+   */
+  onServed?: (served: { provider: string; model?: string }) => void;
+}
+
 /**
  * Response from chat completion
  */
@@ -72,6 +145,7 @@ export interface ChatChoice {
   message: {
     role: 'assistant';
     content: string | null;
+    tool_calls?: ToolCall[];
   };
   finish_reason: FinishReason;
 }
@@ -85,8 +159,24 @@ export interface Usage {
   total_tokens: number;
 }
 
+/**
+ * Retry policy for upstream calls
+ */
+export interface RetryConfig {
+  /** Total attempts including the first one (default: 3, 1 disables retries) */
+  maxAttempts?: number;
+  /** Base delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** HTTP statuses that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+}
+
 export interface ProviderConfig {
   type: ProviderType;
+  /** Retry policy (applies before a response or stream is returned) */
+  retry?: RetryConfig;
 }
 
 export interface AzureConfig extends ProviderConfig {
@@ -111,6 +201,35 @@ export interface OpenAIConfig extends ProviderConfig {
   organization?: string;
 }
 
+export interface AnthropicConfig extends ProviderConfig {
+  type: 'anthropic';
+  apiKey: string;
+  /** API base URL (default: "https://api.anthropic.com") */
+  baseUrl?: string;
+  /** anthropic-version header (default: "2023-06-01") */
+  version?: string;
+  /** Beta features sent as the anthropic-beta header, e.g. ["prompt-caching-2024-07-31"] */
+  beta?: string[];
+  /** Model used when the request does not name one */
+  model?: string;
+  /** max_tokens when the request does not set one (default: 4096) */
+  maxTokens?: number;
+}
+
+export interface BedrockConfig extends ProviderConfig {
+  type: 'bedrock';
+  /** AWS region, e.g. "us-east-1" */
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary credentials (STS) */
+  sessionToken?: string;
+  /** Runtime endpoint, e.g. a VPC endpoint or local stub (default: "https://bedrock-runtime.{region}.amazonaws.com") */
+  endpoint?: string;
+  /** Model ID or inference profile used when the request does not name one */
+  model?: string;
+}
+
 export interface CloudflareConfig extends ProviderConfig {
   type: 'cloudflare';
   accountId: string;
@@ -118,10 +237,57 @@ export interface CloudflareConfig extends ProviderConfig {
   model?: string;
 }
 
+/**
+ * Per-model request adjustments for backends that deviate from the OpenAI schema
+ */
+export interface ModelQuirks {
+  /** Request fields removed before sending, e.g. ["parallel_tool_calls", "stream_options"] */
+  drop?: string[];
+  /** Request fields renamed, e.g. {"max_tokens": "max_completion_tokens"} */
+  rename?: Record<string, string>;
+  /** Fields merged into the request body, e.g. {"top_k": 40} */
+  extra?: Record<string, unknown>;
+}
+
 export interface CustomConfig extends ProviderConfig {
   type: 'custom';
+  /** Base URL of the OpenAI-compatible API, e.g. "http://localhost:11434/v1" */
   baseUrl: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Credential; optional for local servers without auth */
+  apiKey?: string;
+  /** Header carrying apiKey (default: "Authorization") */
+  authHeader?: string;
+  /** Prefix of the auth header value (default: "Bearer" for Authorization, none otherwise) */
+  authScheme?: string;
+  /** Chat completions path relative to baseUrl (default: "/chat/completions") */
+  chatPath?: string;
+  /** Model used when the request does not name one */
+  model?: string;
+  /** Provider name reported in errors and metrics (default: "custom") */
+  name?: string;
+  /** Whether the backend supports SSE streaming (default: true) */
+  streaming?: boolean;
+  /** Quirks per model; keys are model names, a trailing "*" matches a prefix, "*" matches all */
+  modelQuirks?: Record<string, ModelQuirks>;
+}
+
+/**
+ * Config of an OpenAI-compatible vendor preset; base URL, default model and
+ * parameter handling come from the preset
+ */
+export interface PresetConfig extends ProviderConfig {
+  type: PresetType;
+  apiKey: string;
+  /** Override the vendor's API base URL (e.g. a proxy) */
+  baseUrl?: string;
+  /** Model used when the request does not name one */
+  model?: string;
+  /** Extra headers, e.g. {"HTTP-Referer": "...", "X-Title": "..."} for OpenRouter */
   headers?: Record<string, string>;
+  /** Quirks merged over the preset's own (same format as CustomConfig.modelQuirks) */
+  modelQuirks?: Record<string, ModelQuirks>;
 }
 
 export interface VertexConfig extends ProviderConfig {
@@ -138,7 +304,16 @@ export interface VertexConfig extends ProviderConfig {
   defaultModel?: string;
 }
 
-export type AnyProviderConfig = AzureConfig | AzureFoundryConfig | OpenAIConfig | CloudflareConfig | VertexConfig | CustomConfig;
+export type AnyProviderConfig =
+  | AzureConfig
+  | AzureFoundryConfig
+  | OpenAIConfig
+  | AnthropicConfig
+  | BedrockConfig
+  | CloudflareConfig
+  | VertexConfig
+  | CustomConfig
+  | PresetConfig;
 
 /**
  * Error codes for AI Gateway errors
@@ -172,6 +347,10 @@ export class AIGatewayError extends Error {
   readonly provider?: ProviderType;
   /** Raw error response from provider */
   readonly raw?: unknown;
+  /** Number of upstream attempts made before giving up */
+  readonly attempts?: number;
+  /** True when the request exceeded its timeout (code is NETWORK_ERROR) */
+  readonly isTimeout: boolean;
 
   constructor(
     message: string,
@@ -180,6 +359,8 @@ export class AIGatewayError extends Error {
       code?: AIGatewayErrorCode;
       provider?: ProviderType;
       raw?: unknown;
+      attempts?: number;
+      isTimeout?: boolean;
     } = {}
   ) {
     super(message);
@@ -188,6 +369,8 @@ export class AIGatewayError extends Error {
     this.code = options.code ?? AIGatewayErrorCode.UNKNOWN_ERROR;
     this.provider = options.provider;
     this.raw = options.raw;
+    this.attempts = options.attempts;
+    this.isTimeout = options.isTimeout ?? false;
 
     // Maintains proper stack trace for where error was thrown (V8 engines)
     if (Error.captureStackTrace) {
@@ -203,6 +386,8 @@ export class AIGatewayError extends Error {
       status: this.status,
       code: this.code,
       provider: this.provider,
+      attempts: this.attempts,
+      isTimeout: this.isTimeout || undefined,
     };
   }
 }
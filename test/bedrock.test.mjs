@@ -0,0 +1,153 @@
+// Bedrock provider: SigV4 signing and ConverseStream event-stream decoding.
+// Runs against the build output: npm test
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BedrockProvider, signAwsRequest } from '../dist/index.mjs';
+
+const credentials = { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' };
+
+// get-vanilla from the AWS SigV4 test suite
+test('signAwsRequest matches the AWS test suite', async () => {
+  const headers = await signAwsRequest(
+    { method: 'GET', url: 'https://example.amazonaws.com/', headers: {} },
+    credentials,
+    'us-east-1',
+    'service',
+    new Date('2015-08-30T12:36:00Z')
+  );
+
+  assert.equal(headers['x-amz-date'], '20150830T123600Z');
+  assert.equal(
+    headers.authorization,
+    'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+      'SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+  );
+});
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes) {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Encode one event-stream message with string headers */
+function encodeEvent(headers, payload) {
+  const encoder = new TextEncoder();
+  const headerBytes = [];
+  for (const [name, value] of Object.entries(headers)) {
+    const n = encoder.encode(name);
+    const v = encoder.encode(value);
+    headerBytes.push(n.length, ...n, 7, v.length >> 8, v.length & 0xff, ...v);
+  }
+  const body = encoder.encode(JSON.stringify(payload));
+  const total = 12 + headerBytes.length + body.length + 4;
+  const message = new Uint8Array(total);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, total);
+  view.setUint32(4, headerBytes.length);
+  view.setUint32(8, crc32(message.subarray(0, 8)));
+  message.set(headerBytes, 12);
+  message.set(body, 12 + headerBytes.length);
+  view.setUint32(total - 4, crc32(message.subarray(0, total - 4)));
+  return message;
+}
+
+const event = (type, payload) => encodeEvent({ ':message-type': 'event', ':event-type': type }, payload);
+
+function withFetch(handler, fn) {
+  const original = globalThis.fetch;
+  globalThis.fetch = handler;
+  return fn().finally(() => { globalThis.fetch = original; });
+}
+
+function createProvider() {
+  return new BedrockProvider({
+    type: 'bedrock',
+    region: 'us-east-1',
+    model: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
+    ...credentials,
+  });
+}
+
+test('chatStream decodes ConverseStream events split across chunks', async () => {
+  const bytes = Buffer.concat([
+    event('messageStart', { role: 'assistant' }),
+    event('contentBlockDelta', { contentBlockIndex: 0, delta: { text: 'Hel' } }),
+    event('contentBlockDelta', { contentBlockIndex: 0, delta: { text: 'lo' } }),
+    event('contentBlockStart', { contentBlockIndex: 1, start: { toolUse: { toolUseId: 't1', name: 'lookup' } } }),
+    event('contentBlockDelta', { contentBlockIndex: 1, delta: { toolUse: { input: '{"q":1}' } } }),
+    event('messageStop', { stopReason: 'tool_use' }),
+    event('metadata', { usage: { inputTokens: 3, outputTokens: 4, totalTokens: 7 } }),
+  ]);
+
+  // Deliver in 7-byte pieces so messages straddle chunk boundaries
+  const body = new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += 7) controller.enqueue(new Uint8Array(bytes.subarray(i, i + 7)));
+      controller.close();
+    },
+  });
+
+  let url;
+  const text = await withFetch(async (input) => {
+    url = String(input);
+    return new Response(body, { status: 200 });
+  }, async () => {
+    const stream = await createProvider().chatStream({
+      messages: [{ role: 'user', content: 'hi' }],
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    return new Response(stream).text();
+  });
+
+  assert.match(url, /\/model\/anthropic\.claude-3-5-sonnet-20240620-v1%3A0\/converse-stream$/);
+  const chunks = text.split('\n\n').filter(Boolean).map(line => line.slice('data: '.length));
+  assert.equal(chunks.pop(), '[DONE]');
+  const parsed = chunks.map(c => JSON.parse(c));
+
+  assert.equal(parsed.map(c => c.choices[0]?.delta.content ?? '').join(''), 'Hello');
+  const toolDeltas = parsed.flatMap(c => c.choices[0]?.delta.tool_calls ?? []);
+  assert.equal(toolDeltas[0].id, 't1');
+  assert.equal(toolDeltas[0].function.name, 'lookup');
+  assert.equal(toolDeltas.map(t => t.function.arguments).join(''), '{"q":1}');
+  assert.equal(parsed.find(c => c.choices[0]?.finish_reason)?.choices[0].finish_reason, 'tool_calls');
+  assert.deepEqual(parsed.at(-1).usage, { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 });
+});
+
+test('chatStream rejects corrupted event-stream messages', async () => {
+  const bytes = event('contentBlockDelta', { contentBlockIndex: 0, delta: { text: 'x' } });
+  bytes[bytes.length - 6] ^= 0xff;
+
+  await withFetch(async () => new Response(bytes, { status: 200 }), async () => {
+    const stream = await createProvider().chatStream({ messages: [{ role: 'user', content: 'hi' }], stream: true });
+    await assert.rejects(new Response(stream).text(), /checksum mismatch/);
+  });
+});
+
+test('chat leaves out empty text blocks', async () => {
+  let sent;
+  await withFetch(async (_input, init) => {
+    sent = JSON.parse(init.body);
+    return new Response(JSON.stringify({
+      output: { message: { role: 'assistant', content: [{ text: 'ok' }] } },
+      stopReason: 'end_turn',
+      usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+    }), { status: 200 });
+  }, () => createProvider().chat({
+    messages: [
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: null },
+      { role: 'user', content: [{ type: 'text', text: '' }, { type: 'text', text: 'again' }] },
+    ],
+  }));
+
+  assert.deepEqual(sent.messages, [{ role: 'user', content: [{ text: 'hi' }, { text: 'again' }] }]);
+});
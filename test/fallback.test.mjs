@@ -0,0 +1,84 @@
+// Fallback provider: failover order, error handling and served-backend
+// reporting, including a load-balanced pool nested in the chain.
+// Runs against the build output: npm test
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIGatewayError, AIGatewayErrorCode, FallbackProvider, LoadBalancedProvider } from '../dist/index.mjs';
+
+const request = { model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] };
+
+/** Provider stub that records its calls and fails while `fail` returns an error code */
+function stub(name, fail = () => undefined) {
+  const provider = {
+    name,
+    supportsStreaming: false,
+    calls: [],
+    async chat(req) {
+      provider.calls.push(req.model);
+      const code = fail();
+      if (code) throw new AIGatewayError(`${name} failed`, { status: code === AIGatewayErrorCode.INVALID_REQUEST ? 400 : 503, code });
+      return { id: name, object: 'chat.completion', created: 0, model: req.model, choices: [] };
+    },
+  };
+  return provider;
+}
+
+test('fallback tries targets in order and reports failovers and the serving index', async () => {
+  const a = stub('a', () => AIGatewayErrorCode.RATE_LIMIT_ERROR);
+  const b = stub('b', () => AIGatewayErrorCode.PROVIDER_ERROR);
+  const c = stub('c');
+  const fallbacks = [];
+  const successes = [];
+  const chain = new FallbackProvider([{ provider: a }, { provider: b, model: 'm-b' }, { provider: c }], {
+    onFallback: (e) => fallbacks.push([e.from, e.to, e.error.code]),
+    onSuccess: (i) => successes.push(i),
+  });
+
+  const served = [];
+  const response = await chain.chat(request, { onServed: (s) => served.push(s) });
+
+  assert.equal(response.id, 'c');
+  assert.deepEqual(b.calls, ['m-b']);
+  assert.deepEqual(fallbacks, [
+    [0, 1, AIGatewayErrorCode.RATE_LIMIT_ERROR],
+    [1, 2, AIGatewayErrorCode.PROVIDER_ERROR],
+  ]);
+  assert.deepEqual(successes, [2]);
+  assert.deepEqual(served, [{ provider: 'c', model: undefined }]);
+});
+
+test('fallback stops on a non-retryable error and rethrows the last error when all fail', async () => {
+  const bad = stub('bad', () => AIGatewayErrorCode.INVALID_REQUEST);
+  const next = stub('next');
+  const successes = [];
+  await assert.rejects(
+    new FallbackProvider([{ provider: bad }, { provider: next }], { onSuccess: (i) => successes.push(i) }).chat(request),
+    { code: AIGatewayErrorCode.INVALID_REQUEST }
+  );
+  assert.equal(next.calls.length, 0);
+  assert.deepEqual(successes, []);
+
+  const down = stub('down', () => AIGatewayErrorCode.PROVIDER_ERROR);
+  const limited = stub('limited', () => AIGatewayErrorCode.RATE_LIMIT_ERROR);
+  await assert.rejects(
+    new FallbackProvider([{ provider: down }, { provider: limited }]).chat(request),
+    { code: AIGatewayErrorCode.RATE_LIMIT_ERROR }
+  );
+});
+
+test('a pool nested in a fallback chain reports its own backend', async () => {
+  const primary = stub('primary', () => AIGatewayErrorCode.PROVIDER_ERROR);
+  const east = stub('east');
+  const pool = new LoadBalancedProvider([{ provider: east, model: 'gpt-4o-east' }]);
+  const successes = [];
+  const chain = new FallbackProvider([{ provider: primary }, { provider: pool }], {
+    onSuccess: (i) => successes.push(i),
+  });
+
+  const served = [];
+  await chain.chat(request, { onServed: (s) => served.push(s) });
+
+  assert.deepEqual(served, [{ provider: 'east', model: 'gpt-4o-east' }]);
+  assert.deepEqual(successes, [1]);
+});
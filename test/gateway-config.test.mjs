@@ -0,0 +1,119 @@
+// Worker gateway config: GATEWAY_CONFIG parsing, route defaults and schema errors.
+// Runs against the build output: npm test
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGatewayConfig, validateGatewayConfig } from '../dist/worker/config.mjs';
+
+const vars = { OPENAI_API_KEY: 'sk-test', FOUNDRY_KEY: 'foundry-test' };
+
+const config = {
+  default_provider: 'azure-foundry',
+  default_model: 'gpt-4o',
+  providers: {
+    'azure-foundry': { type: 'azure-foundry', endpoint: 'https://my.services.ai.azure.com', apiKey: '$FOUNDRY_KEY' },
+    'azure-eu': { type: 'azure', endpoint: 'https://eu.openai.azure.com', apiKey: 'literal', deployment: 'gpt-4o' },
+    openai: { type: 'openai', apiKey: '$OPENAI_API_KEY' },
+  },
+  routes: { eu: 'azure-eu', foundry: 'openai' },
+  fallback_chain: ['azure-foundry/gpt-4o', 'openai/gpt-4o'],
+};
+
+test('parseGatewayConfig routes provider names, built-in prefixes and explicit routes', () => {
+  const parsed = parseGatewayConfig(JSON.stringify(config), vars);
+
+  assert.deepEqual(parsed.routes, {
+    // Built-in prefixes for providers defined under their default names
+    'azure': 'azure-foundry',
+    'azure-foundry': 'azure-foundry',
+    'openai': 'openai',
+    // Every provider by its own name
+    'azure-eu': 'azure-eu',
+    // Explicit routes, overriding the built-in foundry/ prefix
+    'eu': 'azure-eu',
+    'foundry': 'openai',
+  });
+  assert.equal(parsed.default_provider, 'azure-foundry');
+  // Secret references are resolved when providers are built, not while parsing
+  assert.equal(parsed.providers.openai.apiKey, '$OPENAI_API_KEY');
+});
+
+test('parseGatewayConfig accepts an object as well as a JSON string', () => {
+  assert.deepEqual(parseGatewayConfig(config, vars), parseGatewayConfig(JSON.stringify(config), vars));
+});
+
+test('parseGatewayConfig throws CONFIG_ERROR for invalid JSON', () => {
+  assert.throws(() => parseGatewayConfig('{ "providers": ', vars), (err) => {
+    assert.equal(err.code, 'CONFIG_ERROR');
+    assert.equal(err.status, 500);
+    assert.match(err.message, /^Invalid gateway config: GATEWAY_CONFIG is not valid JSON/);
+    return true;
+  });
+});
+
+test('parseGatewayConfig lists every problem in one error', () => {
+  assert.throws(
+    () => parseGatewayConfig({ ...config, providers: {}, extra: true }, vars),
+    { code: 'CONFIG_ERROR', message: /unknown field 'extra'.*providers must define at least one provider/ }
+  );
+});
+
+test('validateGatewayConfig accepts a valid config', () => {
+  assert.deepEqual(validateGatewayConfig(config, vars), []);
+});
+
+test('validateGatewayConfig reports schema errors with their paths', () => {
+  const errors = validateGatewayConfig(
+    {
+      default_provider: 'missing',
+      default_model: 42,
+      providers: {
+        eastus: { type: 'azure', apiKey: 'k' },
+        odd: { type: 'no-such-provider' },
+        gemini: { type: 'gemini', projectId: 'p' },
+      },
+      routes: { eu: 'nowhere' },
+      fallback_chain: 'openai/gpt-4o',
+      extra: 1,
+    },
+    vars
+  );
+
+  assert.deepEqual(errors.filter(e => !e.startsWith('providers.odd.type')), [
+    "unknown field 'extra'",
+    'providers.eastus.endpoint is required',
+    'providers.eastus.deployment is required',
+    'providers.gemini.apiKey or vertexApiKey or serviceAccountJson is required',
+    "default_provider 'missing' is not a defined provider",
+    'default_model must be a string',
+    "routes.eu references unknown provider 'nowhere'",
+    'fallback_chain must be an array of model strings',
+  ]);
+  assert.match(errors.find(e => e.startsWith('providers.odd.type')), /must be one of .*azure.*gemini, vertex-anthropic$/);
+});
+
+test('validateGatewayConfig reports unset secrets, including nested values', () => {
+  const errors = validateGatewayConfig(
+    {
+      providers: {
+        local: {
+          type: 'custom',
+          baseUrl: 'https://llm.internal/v1',
+          apiKey: '$LOCAL_KEY',
+          headers: { 'x-tok': '$HDR' },
+        },
+      },
+    },
+    vars
+  );
+
+  assert.deepEqual(errors, [
+    'providers.local.apiKey references secret LOCAL_KEY, which is not set',
+    'providers.local.headers.x-tok references secret HDR, which is not set',
+  ]);
+});
+
+test('validateGatewayConfig rejects a non-object config', () => {
+  assert.deepEqual(validateGatewayConfig([], vars), ['GATEWAY_CONFIG must be an object']);
+  assert.deepEqual(validateGatewayConfig(null, vars), ['GATEWAY_CONFIG must be an object']);
+});
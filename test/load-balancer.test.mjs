@@ -0,0 +1,145 @@
+// Load-balanced provider: weighted selection, ejection, probing and
+// served-backend reporting.
+// Runs against the build output: npm test
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIGatewayError, AIGatewayErrorCode, LoadBalancedProvider } from '../dist/index.mjs';
+
+const request = { model: 'gpt-4o', messages: [{ role: 'user', content: 'hi' }] };
+
+/** Provider stub that records its calls and fails while `fail` returns an error code */
+function stub(name, fail = () => undefined) {
+  const provider = {
+    name,
+    supportsStreaming: false,
+    calls: [],
+    async chat(req) {
+      provider.calls.push(req.model);
+      const code = fail();
+      if (code) throw new AIGatewayError(`${name} failed`, { status: code === AIGatewayErrorCode.INVALID_REQUEST ? 400 : 503, code });
+      return { id: name, object: 'chat.completion', created: 0, model: req.model, choices: [] };
+    },
+  };
+  return provider;
+}
+
+/** Replace Date.now for the duration of a test */
+function clock(t, start = 1_000_000) {
+  const now = { value: start };
+  const real = Date.now;
+  Date.now = () => now.value;
+  t.after(() => { Date.now = real; });
+  return now;
+}
+
+test('weighted round-robin spreads requests in proportion to the weights', async () => {
+  const a = stub('a');
+  const b = stub('b');
+  const pool = new LoadBalancedProvider([{ provider: a, weight: 2 }, { provider: b, weight: 1 }]);
+
+  const served = [];
+  for (let n = 0; n < 6; n++) served.push((await pool.chat(request)).id);
+
+  assert.deepEqual(served, ['a', 'b', 'a', 'a', 'b', 'a']);
+});
+
+test('a failing backend is ejected after maxFailures and skipped during the cooldown', async (t) => {
+  const now = clock(t);
+  const a = stub('a', () => AIGatewayErrorCode.PROVIDER_ERROR);
+  const b = stub('b');
+  const ejected = [];
+  const pool = new LoadBalancedProvider(
+    [{ provider: a, name: 'east' }, { provider: b, name: 'west' }],
+    { maxFailures: 2, cooldownMs: 1000, onEject: (e) => ejected.push(e) }
+  );
+
+  // Each request fails over to b; a is tried first on the requests it leads
+  for (let n = 0; n < 4; n++) assert.equal((await pool.chat(request)).id, 'b');
+
+  assert.equal(a.calls.length, 2);
+  assert.equal(ejected.length, 1);
+  assert.equal(ejected[0].index, 0);
+  assert.equal(ejected[0].name, 'east');
+  assert.equal(ejected[0].error.code, AIGatewayErrorCode.PROVIDER_ERROR);
+
+  const health = pool.getHealth();
+  assert.equal(health[0].healthy, false);
+  assert.equal(health[0].ejectedUntil, now.value + 1000);
+  assert.equal(health[1].healthy, true);
+
+  now.value += 999;
+  await pool.chat(request);
+  assert.equal(a.calls.length, 2);
+});
+
+test('a failed probe doubles the cooldown and a successful one recovers the backend', async (t) => {
+  const now = clock(t);
+  let failing = true;
+  const a = stub('a', () => (failing ? AIGatewayErrorCode.RATE_LIMIT_ERROR : undefined));
+  const b = stub('b');
+  const ejected = [];
+  const recovered = [];
+  const pool = new LoadBalancedProvider([{ provider: a }, { provider: b }], {
+    maxFailures: 1,
+    cooldownMs: 1000,
+    onEject: (e) => ejected.push(e),
+    onRecover: (e) => recovered.push(e),
+  });
+
+  await pool.chat(request);
+  assert.equal(ejected.length, 1);
+
+  // Cooldown over: a is probed first, fails again and is ejected for twice as long
+  now.value += 1000;
+  assert.equal((await pool.chat(request)).id, 'b');
+  assert.equal(a.calls.length, 2);
+  assert.equal(ejected.length, 2);
+  assert.equal(pool.getHealth()[0].ejectedUntil, now.value + 2000);
+
+  now.value += 2000;
+  failing = false;
+  assert.equal((await pool.chat(request)).id, 'a');
+  assert.equal(recovered.length, 1);
+  assert.equal(recovered[0].index, 0);
+  assert.equal(pool.getHealth()[0].healthy, true);
+  assert.equal(pool.getHealth()[0].ejectedUntil, undefined);
+
+  // Back to the initial cooldown on the next ejection
+  failing = true;
+  await pool.chat(request);
+  await pool.chat(request);
+  assert.equal(pool.getHealth()[0].ejectedUntil, now.value + 1000);
+});
+
+test('the pool tries ejected backends when every backend is ejected', async () => {
+  const a = stub('a', () => AIGatewayErrorCode.NETWORK_ERROR);
+  const pool = new LoadBalancedProvider([{ provider: a }], { maxFailures: 1, cooldownMs: 60_000 });
+
+  await assert.rejects(pool.chat(request), { code: AIGatewayErrorCode.NETWORK_ERROR });
+  await assert.rejects(pool.chat(request), { code: AIGatewayErrorCode.NETWORK_ERROR });
+  assert.equal(a.calls.length, 2);
+});
+
+test('a non-retryable error is thrown without trying another backend', async () => {
+  const a = stub('a', () => AIGatewayErrorCode.INVALID_REQUEST);
+  const b = stub('b');
+  const pool = new LoadBalancedProvider([{ provider: a }, { provider: b }], { maxFailures: 1 });
+
+  await assert.rejects(pool.chat(request), { code: AIGatewayErrorCode.INVALID_REQUEST });
+  assert.equal(b.calls.length, 0);
+  assert.equal(pool.getHealth()[0].healthy, true);
+});
+
+test('the pool applies target models and reports the backend that served', async () => {
+  const a = stub('a', () => AIGatewayErrorCode.PROVIDER_ERROR);
+  const b = stub('b');
+  const pool = new LoadBalancedProvider([{ provider: a, model: 'm-a' }, { provider: b, model: 'm-b' }]);
+
+  const served = [];
+  await pool.chat(request, { onServed: (s) => served.push(s) });
+
+  assert.deepEqual(a.calls, ['m-a']);
+  assert.deepEqual(b.calls, ['m-b']);
+  assert.deepEqual(served, [{ provider: 'b', model: 'm-b' }]);
+});
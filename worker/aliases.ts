@@ -0,0 +1,126 @@
+import type { ChatCompletionRequest } from '../src';
+
+// Model aliases: virtual model names ("fast", "smart") mapped to routable models, so backends
+// can be swapped in config without changing clients
+
+/** Request parameters an alias may default */
+export type AliasParams = Pick<ChatCompletionRequest, 'temperature' | 'max_tokens' | 'top_p'>;
+
+export interface ModelAlias {
+  /** Routable model, e.g. "foundry/gpt-4o" (may itself be an alias or a deployment pool) */
+  model: string;
+  /** Defaults for parameters the request leaves unset */
+  params?: AliasParams;
+  /** Prepended to the request's system prompt (or added as one) */
+  system?: string;
+}
+
+/** Either a routable model string or a full alias */
+export type AliasEntry = string | ModelAlias;
+
+const PARAM_NAMES: Array<keyof AliasParams> = ['temperature', 'max_tokens', 'top_p'];
+
+/** Aliases may point at other aliases; chains longer than this are treated as cycles */
+const MAX_ALIAS_DEPTH = 8;
+
+/**
+ * Validate aliases ({"fast": "gemini/gemini-2.0-flash", "smart": {"model": "...", "params": {...}}});
+ * returns errors prefixed with the config path
+ */
+export function validateModelAliases(aliases: unknown, path: string): string[] {
+  if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) return [`${path} must be an object of aliases`];
+
+  const errors: string[] = [];
+  for (const [name, entry] of Object.entries(aliases as Record<string, unknown>)) {
+    if (typeof entry === 'string') continue;
+    const alias = entry as ModelAlias | null;
+    if (!alias || typeof alias !== 'object' || typeof alias.model !== 'string' || !alias.model) {
+      errors.push(`${path}.${name} must be a model string or an object with a model`);
+      continue;
+    }
+    if (alias.system !== undefined && typeof alias.system !== 'string') {
+      errors.push(`${path}.${name}.system must be a string`);
+    }
+    if (alias.params !== undefined) {
+      if (!alias.params || typeof alias.params !== 'object') {
+        errors.push(`${path}.${name}.params must be an object`);
+        continue;
+      }
+      for (const [param, value] of Object.entries(alias.params)) {
+        if (!PARAM_NAMES.includes(param as keyof AliasParams)) {
+          errors.push(`${path}.${name}.params.${param} is not supported (${PARAM_NAMES.join(', ')})`);
+        } else if (typeof value !== 'number') {
+          errors.push(`${path}.${name}.params.${param} must be a number`);
+        }
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    for (const name of Object.keys(aliases)) {
+      try {
+        resolveModelAlias(name, aliases as Record<string, AliasEntry>);
+      } catch {
+        errors.push(`${path}.${name} is part of an alias cycle`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Follow an alias (and aliases it points at) to a routable model. Params and system prompts
+ * of the outer alias win over those further down the chain. Returns null for non-aliases.
+ */
+export function resolveModelAlias(
+  name: string,
+  aliases: Record<string, AliasEntry> | undefined
+): { model: string; params: AliasParams; system: string[] } | null {
+  if (!aliases || !Object.prototype.hasOwnProperty.call(aliases, name)) return null;
+
+  let model = name;
+  const params: AliasParams = {};
+  const system: string[] = [];
+  for (let depth = 0; Object.prototype.hasOwnProperty.call(aliases, model); depth++) {
+    if (depth === MAX_ALIAS_DEPTH) throw new Error(`Alias '${name}' does not resolve to a model`);
+    const entry = aliases[model];
+    if (typeof entry === 'string') {
+      model = entry;
+      continue;
+    }
+    for (const param of PARAM_NAMES) {
+      if (params[param] === undefined && entry.params?.[param] !== undefined) params[param] = entry.params[param];
+    }
+    if (entry.system) system.push(entry.system);
+    model = entry.model;
+  }
+  return { model, params, system };
+}
+
+/**
+ * Apply an alias to a chat request in place: set the routable model, fill unset parameters
+ * and prepend the system prompt prefix. Returns the alias name, or null when the model is not an alias.
+ */
+export function applyModelAlias(request: ChatCompletionRequest, aliases: Record<string, AliasEntry> | undefined): string | null {
+  const name = request.model;
+  const resolved = name ? resolveModelAlias(name, aliases) : null;
+  if (!name || !resolved) return null;
+
+  request.model = resolved.model;
+  for (const param of PARAM_NAMES) {
+    if (request[param] === undefined && resolved.params[param] !== undefined) request[param] = resolved.params[param];
+  }
+
+  if (resolved.system.length > 0) {
+    const prefix = resolved.system.join('\n\n');
+    const first = request.messages[0];
+    if (first?.role === 'system' && typeof first.content === 'string') {
+      request.messages = [{ ...first, content: `${prefix}\n\n${first.content}` }, ...request.messages.slice(1)];
+    } else if (first?.role === 'system' && Array.isArray(first.content)) {
+      request.messages = [{ ...first, content: [{ type: 'text', text: prefix }, ...first.content] }, ...request.messages.slice(1)];
+    } else {
+      request.messages = [{ role: 'system', content: prefix }, ...request.messages];
+    }
+  }
+  return name;
+}
@@ -0,0 +1,66 @@
+import { DEFAULT_PAGE_SIZE, type Page } from './keys';
+
+// Audit log for admin mutations
+
+export interface AuditEvent {
+  ts: number; // epoch ms
+  action: string; // e.g. "key.create", "key.rotate"
+  target: string; // id of the affected object
+  client?: string;
+  ip?: string;
+  user_agent?: string;
+  changes?: Record<string, unknown>;
+}
+
+/** Pluggable storage for audit events */
+export interface AuditStore {
+  append(event: AuditEvent): Promise<void>;
+  /** Most recent events first */
+  list(options?: { cursor?: string; limit?: number }): Promise<Page<AuditEvent>>;
+}
+
+/** Keys sort newest-first: KV lists in ascending key order */
+function auditKey(ts: number): string {
+  const inverted = (9_999_999_999_999 - ts).toString().padStart(13, '0');
+  return `audit:${inverted}:${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/** KV-backed audit store; entries expire after ttlSeconds */
+export class KVAuditStore implements AuditStore {
+  constructor(private readonly kv: KVNamespace, private readonly ttlSeconds = 90 * 24 * 3600) {}
+
+  async append(event: AuditEvent): Promise<void> {
+    await this.kv.put(auditKey(event.ts), JSON.stringify(event), { expirationTtl: this.ttlSeconds });
+  }
+
+  async list(options: { cursor?: string; limit?: number } = {}): Promise<Page<AuditEvent>> {
+    const page = await this.kv.list({ prefix: 'audit:', cursor: options.cursor, limit: options.limit ?? DEFAULT_PAGE_SIZE }) as {
+      keys: { name: string }[];
+      list_complete: boolean;
+      cursor?: string;
+    };
+    const records = await Promise.all(page.keys.map(({ name }) => this.kv.get(name)));
+    return {
+      items: records.filter((raw): raw is string => !!raw).map(raw => JSON.parse(raw) as AuditEvent),
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  }
+}
+
+/** In-memory audit store (per isolate, for tests and local development) */
+export class MemoryAuditStore implements AuditStore {
+  private readonly events: AuditEvent[] = [];
+
+  constructor(private readonly maxEvents = 1000) {}
+
+  async append(event: AuditEvent): Promise<void> {
+    this.events.unshift(event);
+    this.events.length = Math.min(this.events.length, this.maxEvents);
+  }
+
+  async list(options: { cursor?: string; limit?: number } = {}): Promise<Page<AuditEvent>> {
+    const start = Number(options.cursor) || 0;
+    const end = start + (options.limit ?? DEFAULT_PAGE_SIZE);
+    return { items: this.events.slice(start, end), cursor: end < this.events.length ? String(end) : undefined };
+  }
+}
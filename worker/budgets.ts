@@ -0,0 +1,197 @@
+// Token and cost budgets per virtual key and per x-env (daily / monthly, UTC)
+
+export interface Budget {
+  daily_tokens?: number;
+  monthly_tokens?: number;
+  daily_cost_usd?: number;
+  monthly_cost_usd?: number;
+  /** Fraction of a budget at which a warning header is sent (default 0.8) */
+  soft_limit?: number;
+}
+
+export interface BudgetUsage {
+  tokens: number;
+  cost_usd: number;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetStatus {
+  /** "key:<id>" or "env:<name>" */
+  scope: string;
+  period: BudgetPeriod;
+  metric: 'tokens' | 'cost_usd';
+  limit: number;
+  used: number;
+  remaining: number;
+  /** Soft limit reached (warning only) */
+  warning: boolean;
+  /** Hard limit reached (requests are rejected) */
+  exceeded: boolean;
+}
+
+/** A budget together with the scope it is counted under */
+export interface BudgetScope {
+  scope: string;
+  budget: Budget;
+}
+
+/**
+ * Pluggable storage for budget counters. Each scope holds one counter per period
+ * (e.g. "daily:2024-05-01", "monthly:2024-05").
+ */
+export interface BudgetStore {
+  get(scope: string, counters: string[]): Promise<BudgetUsage[]>;
+  /** Add usage to every counter of the scope in one atomic step */
+  add(scope: string, counters: string[], usage: BudgetUsage): Promise<void>;
+}
+
+const NO_USAGE: BudgetUsage = { tokens: 0, cost_usd: 0 };
+
+/** In-memory counters (per isolate, for tests and local development) */
+export class MemoryBudgetStore implements BudgetStore {
+  private readonly counters = new Map<string, BudgetUsage>();
+
+  async get(scope: string, counters: string[]): Promise<BudgetUsage[]> {
+    return counters.map(counter => this.counters.get(`${scope}:${counter}`) ?? NO_USAGE);
+  }
+
+  async add(scope: string, counters: string[], usage: BudgetUsage): Promise<void> {
+    for (const counter of counters) {
+      const current = this.counters.get(`${scope}:${counter}`) ?? NO_USAGE;
+      this.counters.set(`${scope}:${counter}`, { tokens: current.tokens + usage.tokens, cost_usd: current.cost_usd + usage.cost_usd });
+    }
+  }
+}
+
+/** Counters kept by one BudgetCounterObject per scope, so concurrent charges are never lost */
+export class DurableObjectBudgetStore implements BudgetStore {
+  constructor(private readonly namespace: DurableObjectNamespace) {}
+
+  async get(scope: string, counters: string[]): Promise<BudgetUsage[]> {
+    const res = await this.stub(scope).fetch('https://budget-counter/get', {
+      method: 'POST',
+      body: JSON.stringify({ counters }),
+    });
+    return await res.json() as BudgetUsage[];
+  }
+
+  async add(scope: string, counters: string[], usage: BudgetUsage): Promise<void> {
+    await this.stub(scope).fetch('https://budget-counter/add', {
+      method: 'POST',
+      body: JSON.stringify({ counters, usage }),
+    });
+  }
+
+  private stub(scope: string) {
+    return this.namespace.get(this.namespace.idFromName(scope));
+  }
+}
+
+/**
+ * Durable Object holding the counters of one budget scope in its storage. Requests are
+ * handled one at a time, so the read-modify-write in /add is atomic. Counters of past
+ * periods are deleted on the next charge.
+ */
+export class BudgetCounterObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const path = new URL(request.url).pathname;
+    const body = await request.json() as { counters: string[]; usage?: BudgetUsage };
+
+    if (path === '/get') {
+      const stored = await this.state.storage.get(body.counters) as Map<string, BudgetUsage>;
+      return new Response(JSON.stringify(body.counters.map(counter => stored.get(counter) ?? NO_USAGE)));
+    }
+    if (path === '/add') {
+      const usage = body.usage ?? NO_USAGE;
+      const stored = await this.state.storage.list() as Map<string, BudgetUsage>;
+      const next: Record<string, BudgetUsage> = {};
+      for (const counter of body.counters) {
+        const current = stored.get(counter) ?? NO_USAGE;
+        next[counter] = { tokens: current.tokens + usage.tokens, cost_usd: current.cost_usd + usage.cost_usd };
+      }
+      const expired = [...stored.keys()].filter(counter => !body.counters.includes(counter));
+      await this.state.storage.put(next);
+      if (expired.length) await this.state.storage.delete(expired);
+      return new Response(null, { status: 204 });
+    }
+    return new Response('Not found', { status: 404 });
+  }
+}
+
+const PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+/** Counter name of the current UTC day or month */
+function counterFor(period: BudgetPeriod, now: Date): string {
+  const iso = now.toISOString();
+  return `${period}:${period === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7)}`;
+}
+
+/** Current usage against every configured limit of the given scopes */
+export async function getBudgetStatus(store: BudgetStore, scopes: BudgetScope[], now = new Date()): Promise<BudgetStatus[]> {
+  const statuses: BudgetStatus[] = [];
+
+  for (const { scope, budget } of scopes) {
+    const soft = budget.soft_limit ?? 0.8;
+    const periods = PERIODS
+      .map(period => ({
+        period,
+        limits: {
+          tokens: period === 'daily' ? budget.daily_tokens : budget.monthly_tokens,
+          cost_usd: period === 'daily' ? budget.daily_cost_usd : budget.monthly_cost_usd,
+        },
+      }))
+      .filter(({ limits }) => limits.tokens || limits.cost_usd);
+    if (!periods.length) continue;
+
+    const usages = await store.get(scope, periods.map(({ period }) => counterFor(period, now)));
+    periods.forEach(({ period, limits }, i) => {
+      for (const metric of ['tokens', 'cost_usd'] as const) {
+        const limit = limits[metric];
+        if (!limit) continue;
+        const used = usages[i][metric];
+        statuses.push({
+          scope,
+          period,
+          metric,
+          limit,
+          used,
+          remaining: Math.max(0, limit - used),
+          warning: used >= limit * soft,
+          exceeded: used >= limit,
+        });
+      }
+    });
+  }
+
+  return statuses;
+}
+
+/** Add a completed request's usage to every period counter of the given scopes */
+export async function chargeBudgets(store: BudgetStore, scopes: BudgetScope[], usage: BudgetUsage, now = new Date()): Promise<void> {
+  if (usage.tokens <= 0 && usage.cost_usd <= 0) return;
+  const counters = PERIODS.map(period => counterFor(period, now));
+  await Promise.all(scopes.map(({ scope }) => store.add(scope, counters, usage)));
+}
+
+/** Response headers: remaining budget (tightest limit per metric) and soft-limit warnings */
+export function budgetHeaders(statuses: BudgetStatus[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const metric of ['tokens', 'cost_usd'] as const) {
+    const relevant = statuses.filter(s => s.metric === metric);
+    if (!relevant.length) continue;
+    const remaining = Math.min(...relevant.map(s => s.remaining));
+    headers[metric === 'tokens' ? 'x-budget-remaining-tokens' : 'x-budget-remaining-usd'] =
+      metric === 'tokens' ? String(remaining) : remaining.toFixed(4);
+  }
+
+  const warnings = statuses
+    .filter(s => s.warning)
+    .map(s => `${s.scope} ${s.period} ${s.metric} at ${Math.floor((s.used / s.limit) * 100)}%`);
+  if (warnings.length) headers['x-budget-warning'] = warnings.join(', ');
+
+  return headers;
+}
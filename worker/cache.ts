@@ -0,0 +1,121 @@
+// Exact-match response cache for deterministic chat and embedding requests (opt-in per request)
+
+/** Pluggable storage for cached response bodies */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+/** KV-backed cache, shared across locations */
+export class KVCacheStore implements CacheStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.kv.get(`cache:${key}`);
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    // KV requires a TTL of at least 60 seconds
+    await this.kv.put(`cache:${key}`, value, { expirationTtl: Math.max(60, ttlSeconds) });
+  }
+}
+
+/** Cache API-backed cache (caches.default, local to each data center) */
+export class CacheApiStore implements CacheStore {
+  constructor(private readonly cache: typeof caches.default) {}
+
+  async get(key: string): Promise<string | null> {
+    const res = await this.cache.match(this.url(key));
+    return res ? res.text() : null;
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.cache.put(this.url(key), new Response(value, {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': `max-age=${ttlSeconds}` },
+    }));
+  }
+
+  private url(key: string): string {
+    return `https://gateway-cache.internal/${key}`;
+  }
+}
+
+/** In-memory cache (per isolate, for tests and local development) */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+}
+
+export type CacheStatus = 'HIT' | 'MISS';
+
+/** Cache options of one request, from the x-gateway-cache / x-gateway-cache-ttl headers */
+export interface CacheOptions {
+  ttlSeconds: number;
+  /** Also look up similar earlier prompts (chat only) */
+  semantic: boolean;
+  /** Set once the cache was consulted; returned to the client as x-cache */
+  status?: CacheStatus;
+  /** Similarity of a semantic hit; returned as x-cache-similarity */
+  similarity?: number;
+}
+
+/** Request fields that do not change the response body */
+const IGNORED_FIELDS = new Set(['stream', 'stream_options', 'user']);
+
+/** JSON with sorted object keys, so equivalent requests serialize identically */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Cache key: SHA-256 of the normalized request together with the resolved provider and model
+ * (the request's own model field is replaced, so "azure/gpt-4o" and an equivalent default route match).
+ * The tenant (see getTenant) is part of the key, so one caller can never be served, or probe
+ * for, another caller's entries.
+ */
+export async function computeCacheKey(
+  kind: 'chat' | 'embeddings',
+  tenant: string,
+  provider: string,
+  model: string,
+  body: object
+): Promise<string> {
+  const normalized: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(body)) {
+    if (!IGNORED_FIELDS.has(k) && k !== 'model') normalized[k] = v;
+  }
+  const data = canonicalJson({ kind, tenant, provider, model, request: normalized });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data));
+  return `${kind}:${[...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Read the per-request opt-in: `x-gateway-cache: true` enables the exact-match cache,
+ * `x-gateway-cache: semantic` adds the semantic cache, `x-gateway-cache-ttl` overrides the default TTL (seconds)
+ */
+export function getCacheOptions(request: Request, defaultTtlSeconds: number): CacheOptions | null {
+  const flag = request.headers.get('x-gateway-cache')?.trim().toLowerCase();
+  if (flag !== 'true' && flag !== '1' && flag !== 'semantic') return null;
+  const ttl = Number(request.headers.get('x-gateway-cache-ttl'));
+  return { ttlSeconds: ttl > 0 ? Math.floor(ttl) : defaultTtlSeconds, semantic: flag === 'semantic' };
+}
@@ -0,0 +1,399 @@
+import {
+  AIGatewayError,
+  AIGatewayErrorCode,
+  listProviders,
+  validateProviderConfig,
+  PROVIDER_PRESETS,
+  type AnyProviderConfig,
+} from '../src';
+import { validateModelAliases, type AliasEntry } from './aliases';
+import { validateDeploymentPools, type DeploymentPool } from './deployments';
+
+// Declarative gateway configuration: named providers, routes, aliases and defaults.
+// Loaded from GATEWAY_CONFIG (a JSON string, or a [vars.GATEWAY_CONFIG] table in wrangler.toml);
+// without it, the same structure is derived from the flat environment variables.
+
+/** Gemini via Vertex AI (API key or service account), falling back to the Gemini API */
+export interface GeminiRouteConfig {
+  type: 'gemini';
+  apiKey?: string;
+  projectId?: string;
+  region?: string;
+  vertexApiKey?: string;
+  serviceAccountJson?: string;
+}
+
+/** Claude on Vertex AI */
+export interface VertexAnthropicRouteConfig {
+  type: 'vertex-anthropic';
+  projectId: string;
+  serviceAccountJson: string;
+  region?: string;
+}
+
+/**
+ * A named provider: a library provider type (including types added with registerProvider) or
+ * one of the worker's own route types. String values of the form "$NAME" reference a secret
+ * (environment variable) and are resolved when the provider is used, so the config itself holds no credentials.
+ */
+export type ProviderEntry = AnyProviderConfig | GeminiRouteConfig | VertexAnthropicRouteConfig;
+
+export interface GatewayConfig {
+  /** Provider (name in providers) for models without a routing prefix */
+  default_provider?: string;
+  /** Model used when a request does not name one */
+  default_model?: string;
+  providers: Record<string, ProviderEntry>;
+  /** Model prefix -> provider name, e.g. {"azure": "azure-eastus"} routes "azure/gpt-4o" */
+  routes: Record<string, string>;
+  /** Virtual model name -> routable model or alias with defaults, e.g. {"fast": "gemini/gemini-2.0-flash"} */
+  aliases?: Record<string, AliasEntry>;
+  /** Ordered fallback chain of routable models */
+  fallback_chain?: string[];
+  /** Load-balanced pools per logical model */
+  deployments?: Record<string, DeploymentPool>;
+}
+
+/** Prefixes understood without a config file (and the provider names configFromEnv creates) */
+export const DEFAULT_ROUTES: Record<string, string> = {
+  'gemini': 'gemini', // direct Gemini call (Vertex AI preferred)
+  'vertex': 'gemini',
+  'azure': 'azure-foundry',
+  'azure-foundry': 'azure-foundry',
+  'foundry': 'azure-foundry',
+  'openai': 'openai',
+  'cloudflare': 'cloudflare',
+  'custom': 'custom', // any OpenAI-compatible backend
+  'bedrock': 'bedrock',
+  'mistral': 'mistral',
+  'groq': 'groq',
+  'deepseek': 'deepseek',
+  'openrouter': 'openrouter', // model ids keep their vendor, e.g. openrouter/meta-llama/llama-3.3-70b-instruct
+  'vertex-claude': 'vertex-anthropic', // Anthropic on Vertex AI
+  'anthropic': 'vertex-anthropic', // or the Anthropic API when a provider named 'anthropic' is configured
+};
+
+/** Required fields of the worker's route types (library types are checked against their registered schema); an array means "one of" */
+const ROUTE_TYPE_FIELDS: Record<'gemini' | 'vertex-anthropic', Array<string | string[]>> = {
+  'gemini': [['apiKey', 'vertexApiKey', 'serviceAccountJson']],
+  'vertex-anthropic': ['projectId', 'serviceAccountJson'],
+};
+
+const TOP_LEVEL_KEYS = ['default_provider', 'default_model', 'providers', 'routes', 'aliases', 'fallback_chain', 'deployments'];
+
+/** Field names whose literal values are hidden in the effective config */
+const SENSITIVE_FIELD = /key|token|secret|password|serviceaccount|authorization/i;
+
+/**
+ * Build the config from the flat environment variables. Credentials are kept as "$NAME"
+ * references, so the result can be shown (redacted) like a config file.
+ */
+export function configFromEnv(vars: Record<string, unknown>): GatewayConfig {
+  const v = vars as Record<string, string | undefined>;
+  const secret = (name: string) => (v[name] ? `$${name}` : undefined);
+  const providers: Record<string, ProviderEntry> = {};
+
+  if (v.AZURE_ENDPOINT && v.AZURE_API_KEY) {
+    providers['azure'] = {
+      type: 'azure',
+      endpoint: v.AZURE_ENDPOINT,
+      apiKey: '$AZURE_API_KEY',
+      deployment: v.AZURE_DEPLOYMENT || 'gpt-4o',
+      apiVersion: v.AZURE_API_VERSION || '2024-02-15-preview',
+    };
+  }
+  if (v.AZURE_FOUNDRY_ENDPOINT && v.AZURE_FOUNDRY_API_KEY) {
+    providers['azure-foundry'] = {
+      type: 'azure-foundry',
+      endpoint: v.AZURE_FOUNDRY_ENDPOINT,
+      apiKey: '$AZURE_FOUNDRY_API_KEY',
+      model: v.AZURE_FOUNDRY_MODEL || 'gpt-4o',
+    };
+  }
+  if (v.OPENAI_API_KEY) {
+    providers['openai'] = {
+      type: 'openai',
+      apiKey: '$OPENAI_API_KEY',
+      baseUrl: v.OPENAI_BASE_URL,
+      organization: v.OPENAI_ORGANIZATION,
+    };
+  }
+  if (v.ANTHROPIC_API_KEY) {
+    providers['anthropic'] = {
+      type: 'anthropic',
+      apiKey: '$ANTHROPIC_API_KEY',
+      baseUrl: v.ANTHROPIC_BASE_URL,
+      beta: v.ANTHROPIC_BETA ? v.ANTHROPIC_BETA.split(',').map(b => b.trim()).filter(Boolean) : undefined,
+      model: v.ANTHROPIC_MODEL,
+    };
+  }
+  if (v.AWS_ACCESS_KEY_ID && v.AWS_SECRET_ACCESS_KEY) {
+    providers['bedrock'] = {
+      type: 'bedrock',
+      region: v.AWS_REGION || 'us-east-1',
+      accessKeyId: '$AWS_ACCESS_KEY_ID',
+      secretAccessKey: '$AWS_SECRET_ACCESS_KEY',
+      sessionToken: secret('AWS_SESSION_TOKEN'),
+      endpoint: v.BEDROCK_ENDPOINT,
+      model: v.BEDROCK_MODEL,
+    };
+  }
+  if (v.CF_ACCOUNT_ID && v.CF_API_TOKEN) {
+    providers['cloudflare'] = {
+      type: 'cloudflare',
+      accountId: v.CF_ACCOUNT_ID,
+      apiToken: '$CF_API_TOKEN',
+      model: v.CF_MODEL,
+    };
+  }
+  if (v.CUSTOM_BASE_URL) {
+    providers['custom'] = {
+      type: 'custom',
+      baseUrl: v.CUSTOM_BASE_URL,
+      apiKey: secret('CUSTOM_API_KEY'),
+      authHeader: v.CUSTOM_AUTH_HEADER,
+      authScheme: v.CUSTOM_AUTH_SCHEME,
+      model: v.CUSTOM_MODEL,
+    };
+  }
+  // OpenAI-compatible vendor presets
+  for (const [type, keyVar, modelVar] of [
+    ['mistral', 'MISTRAL_API_KEY', 'MISTRAL_MODEL'],
+    ['groq', 'GROQ_API_KEY', 'GROQ_MODEL'],
+    ['deepseek', 'DEEPSEEK_API_KEY', 'DEEPSEEK_MODEL'],
+    ['openrouter', 'OPENROUTER_API_KEY', 'OPENROUTER_MODEL'],
+  ] as const) {
+    if (v[keyVar]) providers[type] = { type, apiKey: `$${keyVar}`, model: v[modelVar] };
+  }
+  if (v.GCP_PROJECT_ID || v.GEMINI_API_KEY) {
+    providers['vertex'] = {
+      type: 'vertex',
+      projectId: v.GCP_PROJECT_ID || '',
+      region: v.GCP_REGION || 'us-central1',
+      serviceAccountJson: secret('GCP_SERVICE_ACCOUNT_JSON'),
+      geminiApiKey: secret('GEMINI_API_KEY'),
+      defaultModel: v.VERTEX_DEFAULT_MODEL || 'gemini-2.0-flash',
+    };
+  }
+  if ((v.GCP_PROJECT_ID && (v.VERTEX_API_KEY || v.GCP_SERVICE_ACCOUNT_JSON)) || v.GEMINI_API_KEY) {
+    providers['gemini'] = {
+      type: 'gemini',
+      apiKey: secret('GEMINI_API_KEY'),
+      projectId: v.GCP_PROJECT_ID,
+      region: v.GCP_REGION || 'us-central1',
+      vertexApiKey: secret('VERTEX_API_KEY'),
+      serviceAccountJson: secret('GCP_SERVICE_ACCOUNT_JSON'),
+    };
+  }
+  if (v.GCP_PROJECT_ID && v.GCP_SERVICE_ACCOUNT_JSON) {
+    // Anthropic on Vertex uses the 'global' region
+    providers['vertex-anthropic'] = {
+      type: 'vertex-anthropic',
+      projectId: v.GCP_PROJECT_ID,
+      serviceAccountJson: '$GCP_SERVICE_ACCOUNT_JSON',
+      region: 'global',
+    };
+  }
+
+  const defaultModels: Record<string, string | undefined> = {
+    'azure': v.AZURE_DEPLOYMENT || 'gpt-4o',
+    'azure-foundry': v.AZURE_FOUNDRY_MODEL || 'gpt-4o',
+    'openai': 'gpt-4o',
+    'anthropic': v.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+    'bedrock': v.BEDROCK_MODEL || 'anthropic.claude-3-5-sonnet-20240620-v1:0',
+    'cloudflare': v.CF_MODEL || '@cf/meta/llama-3.1-8b-instruct',
+    'vertex': v.VERTEX_DEFAULT_MODEL || 'gemini-2.0-flash',
+    'custom': v.CUSTOM_MODEL,
+    'mistral': v.MISTRAL_MODEL || PROVIDER_PRESETS.mistral.defaultModel,
+    'groq': v.GROQ_MODEL || PROVIDER_PRESETS.groq.defaultModel,
+    'deepseek': v.DEEPSEEK_MODEL || PROVIDER_PRESETS.deepseek.defaultModel,
+    // OpenRouter ids start with their vendor ("openai/gpt-4o-mini"), which would otherwise be read as a route prefix
+    'openrouter': `openrouter/${v.OPENROUTER_MODEL || PROVIDER_PRESETS.openrouter.defaultModel}`,
+  };
+
+  let deployments: Record<string, DeploymentPool> | undefined;
+  if (v.MODEL_DEPLOYMENTS) {
+    try {
+      deployments = JSON.parse(v.MODEL_DEPLOYMENTS);
+    } catch {
+      throw configError(['MODEL_DEPLOYMENTS is not valid JSON']);
+    }
+    const errors = validateDeploymentPools(deployments, 'MODEL_DEPLOYMENTS');
+    if (errors.length) throw configError(errors);
+  }
+
+  let aliases: Record<string, AliasEntry> | undefined;
+  if (v.MODEL_ALIASES) {
+    try {
+      aliases = JSON.parse(v.MODEL_ALIASES);
+    } catch {
+      throw configError(['MODEL_ALIASES is not valid JSON']);
+    }
+    const errors = validateModelAliases(aliases, 'MODEL_ALIASES');
+    if (errors.length) throw configError(errors);
+  }
+
+  return {
+    default_provider: v.AI_PROVIDER,
+    default_model: v.AI_PROVIDER ? defaultModels[v.AI_PROVIDER] : undefined,
+    providers,
+    // anthropic/ goes to the Anthropic API when it is configured, otherwise to Anthropic on Vertex
+    routes: { ...DEFAULT_ROUTES, ...(providers['anthropic'] ? { anthropic: 'anthropic' } : {}) },
+    aliases,
+    fallback_chain: (v.FALLBACK_CHAIN || '').split(',').map(m => m.trim()).filter(Boolean),
+    deployments,
+  };
+}
+
+/**
+ * Parse and validate a GATEWAY_CONFIG value (JSON string or object); throws CONFIG_ERROR listing every problem
+ */
+export function parseGatewayConfig(raw: unknown, vars: Record<string, unknown>): GatewayConfig {
+  let config: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      config = JSON.parse(raw);
+    } catch (err) {
+      throw configError([`GATEWAY_CONFIG is not valid JSON: ${err instanceof Error ? err.message : String(err)}`]);
+    }
+  }
+
+  const errors = validateGatewayConfig(config, vars);
+  if (errors.length) throw configError(errors);
+
+  // Every provider is routable by its own name; the built-in prefixes apply to providers
+  // defined under their default names; explicit routes take precedence
+  const c = config as GatewayConfig;
+  const routes: Record<string, string> = {};
+  for (const [prefix, name] of Object.entries(DEFAULT_ROUTES)) {
+    if (name in c.providers) routes[prefix] = name;
+  }
+  for (const name of Object.keys(c.providers)) routes[name] = name;
+  return { ...c, routes: { ...routes, ...c.routes } };
+}
+
+/** Schema validation; returns human-readable errors ("providers.eastus.endpoint is required") */
+export function validateGatewayConfig(config: unknown, vars: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return ['GATEWAY_CONFIG must be an object'];
+  const c = config as Record<string, unknown>;
+
+  for (const key of Object.keys(c)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) errors.push(`unknown field '${key}'`);
+  }
+
+  const providers = c.providers as Record<string, Record<string, unknown>> | undefined;
+  if (!providers || typeof providers !== 'object' || Object.keys(providers).length === 0) {
+    errors.push('providers must define at least one provider');
+  } else {
+    for (const [name, entry] of Object.entries(providers)) {
+      const path = `providers.${name}`;
+      if (!entry || typeof entry !== 'object') {
+        errors.push(`${path} must be an object`);
+        continue;
+      }
+      const required = ROUTE_TYPE_FIELDS[entry.type as keyof typeof ROUTE_TYPE_FIELDS];
+      if (required) {
+        for (const field of required) {
+          const options = Array.isArray(field) ? field : [field];
+          if (!options.some(f => entry[f] !== undefined && entry[f] !== '')) {
+            errors.push(`${path}.${options.join(' or ')} is required`);
+          }
+        }
+      } else if (typeof entry.type !== 'string' || !listProviders().some(p => p.type === entry.type)) {
+        const types = [...listProviders().map(p => p.type), ...Object.keys(ROUTE_TYPE_FIELDS)];
+        errors.push(`${path}.type must be one of ${types.join(', ')}`);
+        continue;
+      } else {
+        errors.push(...validateProviderConfig(entry).map(e => `${path}.${e}`));
+      }
+      errors.push(...missingSecrets(entry, vars, path));
+    }
+  }
+
+  const isProvider = (name: unknown) => typeof name === 'string' && !!providers && name in providers;
+  if (c.default_provider !== undefined && !isProvider(c.default_provider)) {
+    errors.push(`default_provider '${c.default_provider}' is not a defined provider`);
+  }
+  if (c.default_model !== undefined && typeof c.default_model !== 'string') {
+    errors.push('default_model must be a string');
+  }
+  if (c.routes !== undefined) {
+    if (!c.routes || typeof c.routes !== 'object') {
+      errors.push('routes must map model prefixes to provider names');
+    } else {
+      for (const [prefix, name] of Object.entries(c.routes)) {
+        if (!isProvider(name)) errors.push(`routes.${prefix} references unknown provider '${name}'`);
+      }
+    }
+  }
+  if (c.aliases !== undefined) errors.push(...validateModelAliases(c.aliases, 'aliases'));
+  if (c.fallback_chain !== undefined) {
+    if (!Array.isArray(c.fallback_chain) || !c.fallback_chain.every(m => typeof m === 'string')) {
+      errors.push('fallback_chain must be an array of model strings');
+    }
+  }
+  if (c.deployments !== undefined) {
+    errors.push(...validateDeploymentPools(c.deployments, 'deployments'));
+    if (c.deployments && typeof c.deployments === 'object') {
+      for (const [name, pool] of Object.entries(c.deployments as Record<string, DeploymentPool>)) {
+        (pool?.deployments || []).forEach((d, i) => {
+          if (!d?.provider) return;
+          const path = `deployments.${name}.deployments[${i}].provider`;
+          errors.push(...validateProviderConfig(d.provider).map(e => `${path}.${e}`));
+          errors.push(...missingSecrets(d.provider, vars, path));
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** "$NAME" references whose environment variable is not set, including nested values (e.g. headers) */
+function missingSecrets(value: unknown, vars: Record<string, unknown>, path: string): string[] {
+  if (Array.isArray(value)) return value.flatMap((v, i) => missingSecrets(v, vars, `${path}[${i}]`));
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([k, v]) => missingSecrets(v, vars, `${path}.${k}`));
+  }
+  if (typeof value === 'string' && value.startsWith('$') && typeof vars[value.slice(1)] !== 'string') {
+    return [`${path} references secret ${value.slice(1)}, which is not set`];
+  }
+  return [];
+}
+
+/** Replace "$NAME" string values, at any depth, with the environment variable NAME */
+export function resolveSecrets<T>(config: T, vars: Record<string, unknown>): T {
+  if (Array.isArray(config)) return config.map(v => resolveSecrets(v, vars)) as T;
+  if (config && typeof config === 'object') {
+    return Object.fromEntries(Object.entries(config).map(([k, v]) => [k, resolveSecrets(v, vars)])) as T;
+  }
+  if (typeof config === 'string' && config.startsWith('$')) {
+    const secret = vars[config.slice(1)];
+    if (typeof secret !== 'string') {
+      throw new AIGatewayError(`Secret ${config.slice(1)} is not set`, { status: 500, code: AIGatewayErrorCode.CONFIG_ERROR });
+    }
+    return secret as T;
+  }
+  return config;
+}
+
+/**
+ * Effective config for display: "$NAME" references are kept (they name a secret, not its value),
+ * literal values of credential-like fields are replaced with "[redacted]"
+ */
+export function redactConfig(value: unknown, field = ''): unknown {
+  if (Array.isArray(value)) return value.map(v => redactConfig(v));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactConfig(v, k)]));
+  }
+  if (typeof value === 'string' && SENSITIVE_FIELD.test(field) && !value.startsWith('$')) return '[redacted]';
+  return value;
+}
+
+function configError(errors: string[]): AIGatewayError {
+  return new AIGatewayError(`Invalid gateway config: ${errors.join('; ')}`, {
+    status: 500,
+    code: AIGatewayErrorCode.CONFIG_ERROR,
+  });
+}
@@ -0,0 +1,50 @@
+import type { AnyProviderConfig, LoadBalancingStrategy } from '../src';
+
+// Load-balanced deployment pools: several weighted backends behind one logical model name
+
+/**
+ * One backend of a pool: either a routable model that uses the gateway's own provider
+ * settings ("openai/gpt-4o"), or an explicit provider config (e.g. a second Azure region)
+ */
+export interface DeploymentConfig {
+  /** Routable model; with a provider config, the model name sent to that provider */
+  model?: string;
+  /** Provider config; "$NAME" values reference secrets */
+  provider?: AnyProviderConfig;
+  weight?: number;
+  name?: string;
+}
+
+export interface DeploymentPool {
+  strategy?: LoadBalancingStrategy;
+  deployments: DeploymentConfig[];
+  /** Consecutive 429/5xx/network failures before a deployment is ejected (default 3) */
+  max_failures?: number;
+  /** Initial ejection time in ms (default 30000) */
+  cooldown_ms?: number;
+}
+
+const STRATEGIES: LoadBalancingStrategy[] = ['weighted-round-robin', 'least-in-flight', 'latency'];
+
+/**
+ * Validate pools ({"gpt-4o": {"strategy": "least-in-flight", "deployments": [...]}});
+ * returns errors prefixed with the config path
+ */
+export function validateDeploymentPools(pools: unknown, path: string): string[] {
+  if (!pools || typeof pools !== 'object') return [`${path} must be an object of pools`];
+
+  const errors: string[] = [];
+  for (const [name, pool] of Object.entries(pools as Record<string, DeploymentPool>)) {
+    if (!Array.isArray(pool?.deployments) || pool.deployments.length === 0) {
+      errors.push(`${path}.${name} needs a non-empty deployments array`);
+      continue;
+    }
+    if (pool.strategy && !STRATEGIES.includes(pool.strategy)) {
+      errors.push(`${path}.${name} has unknown strategy '${pool.strategy}'`);
+    }
+    if (pool.deployments.some(d => !d?.model && !d?.provider)) {
+      errors.push(`each deployment of ${path}.${name} needs a model or a provider`);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,285 @@
+import { AIGatewayError, AIGatewayErrorCode } from '../src';
+import type { Budget } from './budgets';
+import type { RateLimits } from './ratelimit';
+
+// Virtual API keys: issued per tenant, stored by SHA-256 hash, carrying identity and policy
+
+/** Endpoint groups a key can be allowed to call */
+export type KeyEndpoint = 'chat' | 'embeddings' | 'speech';
+
+export interface VirtualKey {
+  /** Public identifier (safe to log and show) */
+  id: string;
+  /** SHA-256 hex digest of the secret key */
+  hash: string;
+  /** Client identity used for metrics and policy */
+  client: string;
+  /** Environment label; the x-env header is used when unset */
+  env?: string;
+  name?: string;
+  /** Model id prefixes the key may use (e.g. "gemini/", "openai/gpt-4o"); "*" or unset allows all */
+  allowed_model_prefixes?: string[];
+  /** Endpoint groups the key may call; unset allows all */
+  allowed_endpoints?: KeyEndpoint[];
+  /** Requests/tokens per minute per model; overrides RATE_LIMIT_RPM/RATE_LIMIT_TPM */
+  rate_limits?: RateLimits;
+  /** Daily/monthly token and cost budget for this key */
+  budget?: Budget;
+  /** Expiry (epoch ms) */
+  expires_at?: number;
+  disabled?: boolean;
+  created_at: number;
+  /** Last characters of the secret, to help identify a key */
+  hint?: string;
+  rotated_at?: number;
+  revoked_at?: number;
+}
+
+/** Fields an admin may set when creating or updating a key */
+export type KeyPolicy = Pick<VirtualKey, 'client' | 'env' | 'name' | 'allowed_model_prefixes' | 'allowed_endpoints' | 'rate_limits' | 'budget' | 'expires_at' | 'disabled'>;
+
+/** One page of a listing; cursor is set when more entries follow */
+export interface Page<T> {
+  items: T[];
+  cursor?: string;
+}
+
+/** Pluggable storage for virtual keys, looked up by hash (authentication) or id (admin) */
+export interface KeyStore {
+  getByHash(hash: string): Promise<VirtualKey | null>;
+  get(id: string): Promise<VirtualKey | null>;
+  list(options?: { cursor?: string; limit?: number }): Promise<Page<VirtualKey>>;
+  /** Save a key; previousHash is removed when the secret was rotated */
+  put(key: VirtualKey, previousHash?: string): Promise<void>;
+}
+
+/** Default and maximum page size for key and audit listings */
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+/**
+ * KV-backed key store. The record lives under its id (`vkeyid:`); the hash entry (`vkey:`) only
+ * points to the id, so a partially applied write can never leave two diverging copies. The id
+ * record is written first and a hash entry is only honoured while the record still carries that
+ * hash, which makes rotations and revocations take effect even if a later write fails.
+ */
+export class KVKeyStore implements KeyStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async getByHash(hash: string): Promise<VirtualKey | null> {
+    const id = await this.kv.get(`vkey:${hash}`);
+    if (!id) return null;
+    const key = await this.get(id);
+    return key?.hash === hash ? key : null;
+  }
+
+  async get(id: string): Promise<VirtualKey | null> {
+    const raw = await this.kv.get(`vkeyid:${id}`);
+    return raw ? JSON.parse(raw) as VirtualKey : null;
+  }
+
+  async list(options: { cursor?: string; limit?: number } = {}): Promise<Page<VirtualKey>> {
+    const page = await this.kv.list({ prefix: 'vkeyid:', cursor: options.cursor, limit: options.limit ?? DEFAULT_PAGE_SIZE }) as {
+      keys: { name: string }[];
+      list_complete: boolean;
+      cursor?: string;
+    };
+    const records = await Promise.all(page.keys.map(({ name }) => this.kv.get(name)));
+    return {
+      items: records.filter((raw): raw is string => !!raw).map(raw => JSON.parse(raw) as VirtualKey),
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  }
+
+  async put(key: VirtualKey, previousHash?: string): Promise<void> {
+    await this.kv.put(`vkeyid:${key.id}`, JSON.stringify(key));
+    await this.kv.put(`vkey:${key.hash}`, key.id);
+    if (previousHash && previousHash !== key.hash) await this.kv.delete(`vkey:${previousHash}`);
+  }
+}
+
+/** In-memory key store (per isolate, for tests and local development) */
+export class MemoryKeyStore implements KeyStore {
+  private readonly keys = new Map<string, VirtualKey>();
+
+  async getByHash(hash: string): Promise<VirtualKey | null> {
+    for (const key of this.keys.values()) {
+      if (key.hash === hash) return key;
+    }
+    return null;
+  }
+
+  async get(id: string): Promise<VirtualKey | null> {
+    return this.keys.get(id) ?? null;
+  }
+
+  async list(options: { cursor?: string; limit?: number } = {}): Promise<Page<VirtualKey>> {
+    const start = Number(options.cursor) || 0;
+    const end = start + (options.limit ?? DEFAULT_PAGE_SIZE);
+    const keys = [...this.keys.values()];
+    return { items: keys.slice(start, end), cursor: end < keys.length ? String(end) : undefined };
+  }
+
+  async put(key: VirtualKey): Promise<void> {
+    this.keys.set(key.id, key);
+  }
+}
+
+/** SHA-256 hex digest of a secret key */
+export async function hashKey(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare two secrets in constant time. Both are hashed first, so neither the position of the
+ * first difference nor the length of the expected value leaks through timing.
+ */
+export async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+  const [x, y] = await Promise.all([a, b].map(v => crypto.subtle.digest('SHA-256', new TextEncoder().encode(v))));
+  const bx = new Uint8Array(x);
+  const by = new Uint8Array(y);
+  let diff = 0;
+  for (let i = 0; i < bx.length; i++) diff |= bx[i] ^ by[i];
+  return diff === 0;
+}
+
+function randomHex(bytes: number): string {
+  return [...crypto.getRandomValues(new Uint8Array(bytes))].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Generate a new secret key */
+export function generateSecret(): string {
+  return `sk-gw-${randomHex(24)}`;
+}
+
+/** Issue a new key; the secret is only returned here and never stored */
+export async function createVirtualKey(policy: KeyPolicy): Promise<{ key: VirtualKey; secret: string }> {
+  const secret = generateSecret();
+  const key: VirtualKey = {
+    ...policy,
+    id: `key_${randomHex(8)}`,
+    hash: await hashKey(secret),
+    hint: secret.slice(-4),
+    created_at: Date.now(),
+  };
+  return { key, secret };
+}
+
+/** Replace a key's secret, keeping its id and policy */
+export async function rotateVirtualKey(key: VirtualKey): Promise<{ key: VirtualKey; secret: string }> {
+  const secret = generateSecret();
+  return {
+    key: { ...key, hash: await hashKey(secret), hint: secret.slice(-4), rotated_at: Date.now() },
+    secret,
+  };
+}
+
+/** Validate an admin-supplied policy; partial for updates */
+export function parseKeyPolicy(body: unknown, partial: boolean): Partial<KeyPolicy> {
+  const invalid = (message: string) =>
+    new AIGatewayError(message, { status: 400, code: AIGatewayErrorCode.INVALID_REQUEST });
+  if (!body || typeof body !== 'object') throw invalid('Invalid JSON body');
+
+  const b = body as Record<string, unknown>;
+  const policy: Partial<KeyPolicy> = {};
+  const isStringArray = (v: unknown) => Array.isArray(v) && v.every(x => typeof x === 'string');
+
+  if (b.client !== undefined || !partial) {
+    if (typeof b.client !== 'string' || !b.client.trim()) throw invalid('client is required');
+    policy.client = b.client.trim();
+  }
+  for (const field of ['env', 'name'] as const) {
+    if (b[field] === undefined) continue;
+    if (typeof b[field] !== 'string') throw invalid(`${field} must be a string`);
+    policy[field] = b[field] as string;
+  }
+  if (b.allowed_model_prefixes !== undefined) {
+    if (!isStringArray(b.allowed_model_prefixes)) throw invalid('allowed_model_prefixes must be an array of strings');
+    policy.allowed_model_prefixes = b.allowed_model_prefixes as string[];
+  }
+  if (b.allowed_endpoints !== undefined) {
+    const endpoints = b.allowed_endpoints as KeyEndpoint[];
+    if (!isStringArray(endpoints) || !endpoints.every(e => ['chat', 'embeddings', 'speech'].includes(e))) {
+      throw invalid('allowed_endpoints must contain only chat, embeddings or speech');
+    }
+    policy.allowed_endpoints = endpoints;
+  }
+  if (b.rate_limits !== undefined) {
+    const limits = b.rate_limits as Record<string, unknown> | null;
+    const isLimit = (v: unknown) => v === undefined || (typeof v === 'number' && v >= 0);
+    if (!limits || typeof limits !== 'object' || !isLimit(limits.rpm) || !isLimit(limits.tpm)) {
+      throw invalid('rate_limits must be { rpm?: number, tpm?: number }');
+    }
+    policy.rate_limits = { rpm: limits.rpm as number | undefined, tpm: limits.tpm as number | undefined };
+  }
+  if (b.budget !== undefined) {
+    const budget = b.budget as Record<string, unknown> | null;
+    const fields = ['daily_tokens', 'monthly_tokens', 'daily_cost_usd', 'monthly_cost_usd', 'soft_limit'];
+    if (budget !== null && (typeof budget !== 'object' || !Object.entries(budget).every(([k, v]) => fields.includes(k) && typeof v === 'number' && v >= 0))) {
+      throw invalid(`budget must be an object with numeric ${fields.join(', ')}`);
+    }
+    // null removes the budget on update
+    policy.budget = (budget ?? undefined) as Budget | undefined;
+  }
+  if (b.expires_at !== undefined) {
+    // null clears the expiry on update
+    if (b.expires_at !== null && typeof b.expires_at !== 'number') throw invalid('expires_at must be epoch milliseconds');
+    policy.expires_at = b.expires_at ?? undefined;
+  }
+  if (b.disabled !== undefined) {
+    if (typeof b.disabled !== 'boolean') throw invalid('disabled must be a boolean');
+    policy.disabled = b.disabled;
+  }
+  return policy;
+}
+
+/** Key record as returned by the admin API (without the hash) */
+export function toPublicKey(key: VirtualKey): Omit<VirtualKey, 'hash'> {
+  const { hash: _hash, ...rest } = key;
+  return rest;
+}
+
+/** Extract the presented key from Authorization: Bearer or x-api-key */
+export function getPresentedKey(request: Request): string | null {
+  const auth = request.headers.get('Authorization');
+  if (auth?.startsWith('Bearer ')) return auth.slice(7).trim();
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Look up a virtual key by its secret; throws AUTHENTICATION_ERROR for disabled or expired keys
+ */
+export async function resolveVirtualKey(store: KeyStore, secret: string): Promise<VirtualKey | null> {
+  const key = await store.getByHash(await hashKey(secret));
+  if (!key) return null;
+
+  if (key.disabled) {
+    throw new AIGatewayError('API key is disabled', { status: 401, code: AIGatewayErrorCode.AUTHENTICATION_ERROR });
+  }
+  if (key.expires_at && key.expires_at <= Date.now()) {
+    throw new AIGatewayError('API key has expired', { status: 401, code: AIGatewayErrorCode.AUTHENTICATION_ERROR });
+  }
+  return key;
+}
+
+export function isModelAllowed(key: VirtualKey | null, model: string): boolean {
+  const prefixes = key?.allowed_model_prefixes;
+  if (!prefixes?.length) return true;
+  return prefixes.some(p => p === '*' || model.toLowerCase().startsWith(p.toLowerCase()));
+}
+
+export function isEndpointAllowed(key: VirtualKey | null, endpoint: KeyEndpoint): boolean {
+  const endpoints = key?.allowed_endpoints;
+  return !endpoints?.length || endpoints.includes(endpoint);
+}
+
+/** Throw a 403 unless the key may use the model */
+export function assertModelAllowed(key: VirtualKey | null, model: string): void {
+  if (!isModelAllowed(key, model)) {
+    throw new AIGatewayError(`API key is not allowed to use model '${model}'`, {
+      status: 403,
+      code: AIGatewayErrorCode.AUTHENTICATION_ERROR,
+    });
+  }
+}
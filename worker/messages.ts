@@ -0,0 +1,347 @@
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ContentPart,
+  FinishReason,
+  Message,
+  ToolChoice,
+} from '../src';
+
+// Anthropic Messages API (/v1/messages) <-> OpenAI chat completion translation
+
+export interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  source?: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | AnthropicContentBlock[];
+  is_error?: boolean;
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  max_tokens?: number;
+  messages: { role: 'user' | 'assistant'; content: string | AnthropicContentBlock[] }[];
+  system?: string | AnthropicContentBlock[];
+  tools?: { name: string; description?: string; input_schema?: Record<string, unknown> }[];
+  tool_choice?: { type: 'auto' | 'any' | 'tool' | 'none'; name?: string; disable_parallel_tool_use?: boolean };
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+}
+
+export interface AnthropicMessage {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  stop_sequence: null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+export function validateMessagesRequest(body: unknown): body is AnthropicMessagesRequest {
+  if (!body || typeof body !== 'object') return false;
+  const req = body as Record<string, unknown>;
+  if (!Array.isArray(req.messages) || req.messages.length === 0) return false;
+
+  return req.messages.every((m: unknown) => {
+    if (!m || typeof m !== 'object') return false;
+    const msg = m as Record<string, unknown>;
+    return (msg.role === 'user' || msg.role === 'assistant')
+      && (typeof msg.content === 'string' || Array.isArray(msg.content));
+  });
+}
+
+function blocksToText(content: string | AnthropicContentBlock[] | undefined): string {
+  if (typeof content === 'string') return content;
+  return (content || []).filter(b => b.type === 'text').map(b => b.text || '').join('');
+}
+
+/** Convert a text or image block to an OpenAI content part */
+function toContentPart(block: AnthropicContentBlock): ContentPart | null {
+  if (block.type === 'text') return { type: 'text', text: block.text || '' };
+  if (block.type === 'image' && block.source) {
+    const url = block.source.type === 'base64'
+      ? `data:${block.source.media_type};base64,${block.source.data}`
+      : block.source.url;
+    return { type: 'image_url', image_url: { url } };
+  }
+  return null;
+}
+
+/** Collapse text-only parts to a string so text-only backends accept them */
+function toMessageContent(parts: ContentPart[]): string | ContentPart[] {
+  return parts.every(p => p.type === 'text') ? parts.map(p => p.text).join('') : parts;
+}
+
+/** Convert Anthropic messages to OpenAI messages (tool_use -> tool_calls, tool_result -> tool) */
+function toOpenAIMessages(request: AnthropicMessagesRequest): Message[] {
+  const messages: Message[] = [];
+
+  const system = blocksToText(request.system);
+  if (system) messages.push({ role: 'system', content: system });
+
+  for (const m of request.messages) {
+    if (typeof m.content === 'string') {
+      messages.push({ role: m.role, content: m.content });
+      continue;
+    }
+
+    if (m.role === 'assistant') {
+      const toolCalls = m.content
+        .filter(b => b.type === 'tool_use')
+        .map(b => ({
+          id: b.id || '',
+          type: 'function' as const,
+          function: { name: b.name || '', arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      const text = blocksToText(m.content);
+      messages.push({
+        role: 'assistant',
+        content: text || (toolCalls.length ? null : ''),
+        ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // Tool results become tool messages, which must directly follow the assistant turn
+    for (const b of m.content) {
+      if (b.type !== 'tool_result') continue;
+      const text = blocksToText(b.content);
+      messages.push({ role: 'tool', tool_call_id: b.tool_use_id || '', content: b.is_error ? `Error: ${text}` : text });
+    }
+
+    const parts = m.content.map(toContentPart).filter((p): p is ContentPart => p !== null);
+    if (parts.length) messages.push({ role: 'user', content: toMessageContent(parts) });
+  }
+
+  return messages;
+}
+
+function toOpenAIToolChoice(choice: AnthropicMessagesRequest['tool_choice']): ToolChoice | undefined {
+  switch (choice?.type) {
+    case 'auto': return 'auto';
+    case 'any': return 'required';
+    case 'none': return 'none';
+    case 'tool': return { type: 'function', function: { name: choice.name || '' } };
+    default: return undefined;
+  }
+}
+
+/** Convert an Anthropic Messages request to a chat completion request */
+export function fromAnthropicRequest(request: AnthropicMessagesRequest): ChatCompletionRequest {
+  const chatRequest: ChatCompletionRequest = {
+    model: request.model,
+    messages: toOpenAIMessages(request),
+    max_tokens: request.max_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    stream: request.stream === true,
+  };
+
+  if (request.tools?.length) {
+    chatRequest.tools = request.tools.map(t => ({
+      type: 'function',
+      function: { name: t.name, description: t.description, parameters: t.input_schema },
+    }));
+    chatRequest.tool_choice = toOpenAIToolChoice(request.tool_choice);
+    if (request.tool_choice?.disable_parallel_tool_use) chatRequest.parallel_tool_calls = false;
+  }
+
+  return chatRequest;
+}
+
+function toStopReason(finishReason: FinishReason): string {
+  switch (finishReason) {
+    case 'length': return 'max_tokens';
+    case 'tool_calls':
+    case 'function_call': return 'tool_use';
+    case 'content_filter': return 'refusal';
+    default: return 'end_turn';
+  }
+}
+
+function parseToolInput(args: string): unknown {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/** Convert a chat completion response to an Anthropic message */
+export function toAnthropicMessage(response: ChatCompletionResponse): AnthropicMessage {
+  const choice = response.choices[0];
+  const content: AnthropicContentBlock[] = [];
+
+  if (choice?.message.content) content.push({ type: 'text', text: choice.message.content });
+  for (const call of choice?.message.tool_calls || []) {
+    content.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseToolInput(call.function.arguments) });
+  }
+
+  return {
+    id: response.id,
+    type: 'message',
+    role: 'assistant',
+    model: response.model,
+    content,
+    stop_reason: toStopReason(choice?.finish_reason ?? null),
+    stop_sequence: null,
+    usage: {
+      input_tokens: response.usage?.prompt_tokens || 0,
+      output_tokens: response.usage?.completion_tokens || 0,
+    },
+  };
+}
+
+/** The parts of a chat.completion.chunk that are translated to Messages events */
+interface ChatStreamChunk {
+  id?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index?: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+    finish_reason?: FinishReason;
+  }[];
+}
+
+/**
+ * Create a transformer from OpenAI SSE chunks to Anthropic stream events
+ * (message_start, content_block_start/delta/stop, message_delta, message_stop).
+ * Usage is taken from the final usage chunk, so the upstream should be asked for it.
+ */
+export function createMessagesStreamTransformer(model: string): TransformStream<Uint8Array, Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let started = false;
+  let finished = false;
+  let blockIndex = -1;
+  let blockType: 'text' | 'tool_use' | null = null;
+  const toolBlocks = new Map<number, number>();
+  let stopReason = 'end_turn';
+  let usage = { input_tokens: 0, output_tokens: 0 };
+
+  const send = (controller: TransformStreamDefaultController<Uint8Array>, type: string, data: Record<string, unknown>) => {
+    controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`));
+  };
+
+  const start = (controller: TransformStreamDefaultController<Uint8Array>, id?: string) => {
+    if (started) return;
+    started = true;
+    send(controller, 'message_start', {
+      message: {
+        id: id || `msg_${Date.now()}`,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 },
+      },
+    });
+  };
+
+  const closeBlock = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (blockType === null) return;
+    send(controller, 'content_block_stop', { index: blockIndex });
+    blockType = null;
+  };
+
+  const openBlock = (controller: TransformStreamDefaultController<Uint8Array>, block: AnthropicContentBlock) => {
+    closeBlock(controller);
+    blockIndex++;
+    blockType = block.type as 'text' | 'tool_use';
+    send(controller, 'content_block_start', { index: blockIndex, content_block: block });
+  };
+
+  const finish = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (finished) return;
+    finished = true;
+    start(controller);
+    closeBlock(controller);
+    send(controller, 'message_delta', { delta: { stop_reason: stopReason, stop_sequence: null }, usage });
+    send(controller, 'message_stop', {});
+  };
+
+  const processLine = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!line.startsWith('data: ')) return;
+    const data = line.slice(6).trim();
+    if (data === '[DONE]') {
+      finish(controller);
+      return;
+    }
+
+    let chunk: ChatStreamChunk;
+    try {
+      const parsed: unknown = JSON.parse(data);
+      if (!parsed || typeof parsed !== 'object') return;
+      chunk = parsed as ChatStreamChunk;
+    } catch {
+      return;
+    }
+    start(controller, chunk.id);
+
+    if (chunk.usage) {
+      usage = { input_tokens: chunk.usage.prompt_tokens || 0, output_tokens: chunk.usage.completion_tokens || 0 };
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) return;
+
+    if (choice.delta?.content) {
+      if (blockType !== 'text') openBlock(controller, { type: 'text', text: '' });
+      send(controller, 'content_block_delta', { index: blockIndex, delta: { type: 'text_delta', text: choice.delta.content } });
+    }
+
+    for (const call of choice.delta?.tool_calls || []) {
+      const toolIndex = call.index ?? 0;
+      if (!toolBlocks.has(toolIndex)) {
+        openBlock(controller, { type: 'tool_use', id: call.id || `toolu_${Date.now()}_${toolIndex}`, name: call.function?.name || '', input: {} });
+        toolBlocks.set(toolIndex, blockIndex);
+      }
+      if (call.function?.arguments) {
+        send(controller, 'content_block_delta', {
+          index: toolBlocks.get(toolIndex),
+          delta: { type: 'input_json_delta', partial_json: call.function.arguments },
+        });
+      }
+    }
+
+    if (choice.finish_reason) stopReason = toStopReason(choice.finish_reason);
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) processLine(line, controller);
+    },
+    flush(controller) {
+      buffer += decoder.decode();
+      if (buffer) processLine(buffer, controller);
+      finish(controller);
+    },
+  });
+}
+
+/** Map an HTTP status to an Anthropic error type */
+export function anthropicErrorType(status: number): string {
+  if (status === 400) return 'invalid_request_error';
+  if (status === 401) return 'authentication_error';
+  if (status === 403) return 'permission_error';
+  if (status === 404) return 'not_found_error';
+  if (status === 413) return 'request_too_large';
+  if (status === 429) return 'rate_limit_error';
+  if (status === 529 || status === 503) return 'overloaded_error';
+  return 'api_error';
+}
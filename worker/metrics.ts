@@ -1,4 +1,5 @@
-import type { ChatCompletionRequest } from '../src';
+import { AIGatewayError, type ChatCompletionRequest } from '../src';
+import type { VirtualKey } from './keys';
 
 export type ModelSource = 'default' | 'override' | 'fallback';
 
@@ -8,11 +9,17 @@ export interface UsageEvent {
   endpoint: string;
   model: string;
   model_source: ModelSource;
+  provider: string; // provider that served the request (e.g. azure, vertex-anthropic)
+  alias?: string; // model alias the request named; model is the model it resolved to
   tokens_in: number;
   tokens_out: number;
-  latency_ms: number;
+  cached_tokens?: number; // part of tokens_in served from the prompt cache
+  cost_usd: number; // from the pricing registry; 0 for unpriced models
+  cache_hit?: boolean; // served from the response cache (no upstream tokens or cost)
+  latency_ms: number; // total duration (for streams: until the last chunk)
   status: number;
   ts: number; // epoch ms
+  ttft_ms?: number; // streaming only: time to first content/tool-call delta
 }
 
 export interface UsageContext {
@@ -22,15 +29,32 @@ export interface UsageContext {
   requestedModel?: string;
 }
 
-export function getClientEnv(request: Request): { client: string; env: string } {
+/**
+ * Identify the caller. With a virtual key the client (and env, if set) come from the key;
+ * otherwise the self-reported x-client-id / x-env headers are used.
+ */
+export function getClientEnv(request: Request, key?: VirtualKey | null): { client: string; env: string } {
+  const headerEnv = request.headers.get('x-env')?.trim() || 'unknown';
+  if (key) return { client: key.client, env: key.env || headerEnv };
+
   const client = request.headers.get('x-client-id')?.trim() || 'unknown';
-  const env = request.headers.get('x-env')?.trim() || 'unknown';
-  return { client, env };
+  return { client, env: headerEnv };
+}
+
+/**
+ * Owner of per-caller state (stored responses, cache entries): the virtual key when one was
+ * presented, otherwise the client id
+ */
+export function getTenant(request: Request, key?: VirtualKey | null): string {
+  return key ? `key:${key.id}` : `client:${getClientEnv(request).client}`;
 }
 
 export function getEndpoint(pathname: string): string {
   // Keep low cardinality: only key endpoints
   if (pathname.includes('/audio/speech')) return '/v1/audio/speech';
+  if (pathname.endsWith('/embeddings')) return '/v1/embeddings';
+  if (pathname.endsWith('/messages')) return '/v1/messages';
+  if (pathname.endsWith('/responses')) return '/v1/responses';
   return '/v1/chat/completions';
 }
 
@@ -41,11 +65,12 @@ export function inferModelSource(requestBodyModel: string | undefined, finalMode
   return 'default';
 }
 
-export function safeExtractChatUsage(resJson: any): { tokens_in: number; tokens_out: number } {
+export function safeExtractChatUsage(resJson: any): { tokens_in: number; tokens_out: number; cached_tokens: number } {
   const usage = resJson?.usage;
   const tokens_in = Number(usage?.prompt_tokens ?? 0) || 0;
   const tokens_out = Number(usage?.completion_tokens ?? 0) || 0;
-  return { tokens_in, tokens_out };
+  const cached_tokens = Number(usage?.prompt_tokens_details?.cached_tokens ?? 0) || 0;
+  return { tokens_in, tokens_out, cached_tokens };
 }
 
 export function safeParseChatRequestModel(body: unknown): string | undefined {
@@ -53,3 +78,114 @@ export function safeParseChatRequestModel(body: unknown): string | undefined {
   const m = (body as ChatCompletionRequest).model;
   return typeof m === 'string' ? m : undefined;
 }
+
+/** The parts of a streamed chat.completion.chunk that are inspected */
+interface StreamChunk {
+  usage?: unknown;
+  choices?: Array<{ delta?: { content?: unknown; tool_calls?: unknown } } | null>;
+}
+
+export interface StreamUsage {
+  tokens_in: number;
+  tokens_out: number;
+  cached_tokens: number;
+  ttft_ms?: number;
+  duration_ms: number;
+  status: number;
+}
+
+/**
+ * Pass an OpenAI SSE stream through while collecting usage and time-to-first-token.
+ * Usage-only chunks (`choices: []`) are dropped unless the client asked for them.
+ * onComplete fires once: at the end of the stream, on error, or with 499 on client cancel.
+ */
+export function tapChatStream(
+  stream: ReadableStream<Uint8Array>,
+  startedAt: number,
+  forwardUsage: boolean,
+  onComplete: (usage: StreamUsage) => void
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+  let tokens_in = 0;
+  let tokens_out = 0;
+  let cached_tokens = 0;
+  let ttft_ms: number | undefined;
+  let done = false;
+
+  const finish = (status: number) => {
+    if (done) return;
+    done = true;
+    onComplete({ tokens_in, tokens_out, cached_tokens, ttft_ms, duration_ms: Date.now() - startedAt, status });
+  };
+
+  // Returns false for lines that should not reach the client
+  const inspect = (line: string): boolean => {
+    if (!line.startsWith('data: ')) return true;
+    const data = line.slice(6).trim();
+    if (data === '[DONE]') return true;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return true;
+    }
+    if (!parsed || typeof parsed !== 'object') return true;
+    const chunk = parsed as StreamChunk;
+    const choices = Array.isArray(chunk.choices) ? chunk.choices : undefined;
+    if (chunk.usage) ({ tokens_in, tokens_out, cached_tokens } = safeExtractChatUsage(chunk));
+    if (ttft_ms === undefined && choices?.some(c => c?.delta?.content || c?.delta?.tool_calls)) {
+      ttft_ms = Date.now() - startedAt;
+    }
+    return forwardUsage || !(chunk.usage && choices?.length === 0);
+  };
+
+  // The blank separator after a dropped event is dropped with it
+  let dropped = false;
+  const filter = (lines: string[]): string =>
+    lines
+      .filter(line => {
+        if (dropped && line.trim() === '') return (dropped = false);
+        dropped = !inspect(line);
+        return !dropped;
+      })
+      .map(line => line + '\n')
+      .join('');
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // Keep reading until something is enqueued: pull is not called again after a pass that
+        // enqueues nothing (e.g. only a dropped usage chunk), which would stall the consumer
+        for (;;) {
+          const { done: end, value } = await reader.read();
+          if (end) {
+            buffer += decoder.decode();
+            const rest = buffer ? filter([buffer]) : '';
+            if (rest) controller.enqueue(encoder.encode(rest));
+            controller.close();
+            finish(200);
+            return;
+          }
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          const out = filter(lines);
+          if (out) {
+            controller.enqueue(encoder.encode(out));
+            return;
+          }
+        }
+      } catch (err) {
+        finish(err instanceof AIGatewayError ? err.status : 502);
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      finish(499);
+      return reader.cancel(reason);
+    },
+  });
+}
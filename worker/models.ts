@@ -0,0 +1,53 @@
+// Model catalog for GET /v1/models
+
+export interface ModelCapabilities {
+  streaming: boolean;
+  vision: boolean;
+  tools: boolean;
+  embeddings: boolean;
+}
+
+export interface CatalogModel {
+  /** Routable model id, including its prefix (e.g. "gemini/gemini-2.0-flash") */
+  id: string;
+  object: 'model';
+  created: number;
+  owned_by: string;
+  /** Routing prefix, or null for the default provider */
+  prefix: string | null;
+  /** Configured providers that serve this model */
+  providers: string[];
+  capabilities: ModelCapabilities;
+}
+
+/** Routing prefixes advertised in the catalog (aliases such as vertex/ and vertex-claude/ are omitted) */
+export const CATALOG_PREFIXES = ['gemini', 'azure', 'foundry', 'openai', 'cloudflare', 'anthropic'] as const;
+
+/** Well-known models per routing prefix; configured default models are added on top */
+const AZURE_FOUNDRY_MODELS = ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'o3-mini'];
+
+export const KNOWN_MODELS: Record<(typeof CATALOG_PREFIXES)[number], string[]> = {
+  gemini: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash', 'gemini-2.0-flash-lite', 'gemini-1.5-pro', 'gemini-1.5-flash'],
+  azure: AZURE_FOUNDRY_MODELS,
+  foundry: AZURE_FOUNDRY_MODELS,
+  openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'o3-mini', 'gpt-3.5-turbo'],
+  cloudflare: ['@cf/meta/llama-3.1-8b-instruct', '@cf/meta/llama-3.3-70b-instruct-fp8-fast', '@cf/meta/llama-3.2-11b-vision-instruct'],
+  anthropic: ['claude-sonnet-4-5@20250929', 'claude-opus-4-1@20250805', 'claude-sonnet-4@20250514', 'claude-3-5-haiku@20241022'],
+};
+
+/** Embedding models served by /v1/embeddings (Azure OpenAI or Azure Foundry deployments) */
+export const EMBEDDING_MODELS = ['text-embedding-3-small', 'text-embedding-3-large'];
+
+/**
+ * Best-effort capability flags from the model name
+ * (mirrors the vision checks applied when translating requests)
+ */
+export function modelCapabilities(model: string, streaming: boolean): ModelCapabilities {
+  const id = model.toLowerCase();
+  const embeddings = /embed|bge-/.test(id);
+  if (embeddings) return { streaming: false, vision: false, tools: false, embeddings: true };
+
+  const vision = /^gpt-4o|^gpt-4\.1|^gemini-(?!(1\.0-)?pro(-\d+)?$)|^claude-(?!2|instant)|vision|llava/.test(id);
+  const tools = /^gpt-|^o\d|^gemini-|^claude-(?!2|instant)|llama-3\.[13]|hermes|mistral|qwen/.test(id);
+  return { streaming, vision, tools, embeddings: false };
+}
@@ -0,0 +1,108 @@
+// Model pricing registry (USD per 1M tokens) for cost attribution and cost budgets
+
+export interface ModelPrice {
+  /** USD per 1M input tokens */
+  input: number;
+  /** USD per 1M output tokens */
+  output: number;
+  /** USD per 1M cached input tokens (prompt cache hits); defaults to the input rate */
+  cached_input?: number;
+}
+
+/**
+ * Prices keyed by model name ("gpt-4o") or by provider and model ("azure/gpt-4o").
+ * Provider keys use the provider names recorded in usage events
+ * (azure, azure-foundry, openai, cloudflare, vertex, gemini, vertex-anthropic).
+ */
+export type PricingTable = Record<string, ModelPrice>;
+
+export interface CostUsage {
+  tokens_in: number;
+  tokens_out: number;
+  /** Part of tokens_in served from the provider's prompt cache */
+  cached_tokens?: number;
+}
+
+/** List prices of the models in the catalog; override or extend them with MODEL_PRICING */
+export const DEFAULT_PRICING: PricingTable = {
+  // OpenAI / Azure OpenAI / Azure Foundry
+  'gpt-4o': { input: 2.5, output: 10, cached_input: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cached_input: 0.075 },
+  'gpt-4.1': { input: 2, output: 8, cached_input: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cached_input: 0.1 },
+  'o3-mini': { input: 1.1, output: 4.4, cached_input: 0.55 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+
+  // Gemini (Vertex AI and Gemini API)
+  'gemini-2.5-pro': { input: 1.25, output: 10, cached_input: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cached_input: 0.075 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cached_input: 0.025 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+
+  // Claude (version suffixes such as "@20250929" are ignored on lookup)
+  'claude-sonnet-4-5': { input: 3, output: 15, cached_input: 0.3 },
+  'claude-opus-4-1': { input: 15, output: 75, cached_input: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cached_input: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cached_input: 0.08 },
+
+  // Cloudflare Workers AI
+  '@cf/meta/llama-3.1-8b-instruct': { input: 0.282, output: 0.827 },
+  '@cf/meta/llama-3.3-70b-instruct-fp8-fast': { input: 0.293, output: 2.253 },
+  '@cf/meta/llama-3.2-11b-vision-instruct': { input: 0.049, output: 0.676 },
+};
+
+/** Parse the MODEL_PRICING config ({"gpt-4o": {"input": 2.5, "output": 10}}); invalid JSON yields no prices */
+export function parsePricing(json: string | undefined): PricingTable {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json) as PricingTable;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    console.warn('Ignoring invalid MODEL_PRICING');
+    return {};
+  }
+}
+
+let resolved: { json: string | undefined; table: PricingTable } | null = null;
+
+/** Default prices with MODEL_PRICING entries on top (parsed once per isolate) */
+export function resolvePricing(json: string | undefined): PricingTable {
+  if (!resolved || resolved.json !== json) {
+    resolved = { json, table: { ...DEFAULT_PRICING, ...parsePricing(json) } };
+  }
+  return resolved.table;
+}
+
+/** Model name without a routing prefix or a version/date suffix ("claude-sonnet-4@20250514" -> "claude-sonnet-4") */
+function baseModelName(model: string): string {
+  const name = model.startsWith('@cf/') ? model : model.slice(model.indexOf('/') + 1);
+  return name.replace(/@\d{8}$|-\d{8}$|-\d{4}-\d{2}-\d{2}$/, '');
+}
+
+/** Price for a model, preferring a provider-specific entry */
+export function lookupPrice(pricing: PricingTable, provider: string | undefined, model: string): ModelPrice | undefined {
+  const base = baseModelName(model);
+  const candidates = provider
+    ? [`${provider}/${model}`, `${provider}/${base}`, model, base]
+    : [model, base];
+  for (const name of candidates) {
+    if (pricing[name]) return pricing[name];
+  }
+  return undefined;
+}
+
+/** Cost of a request in USD; models without a price cost 0 */
+export function computeCostUsd(pricing: PricingTable, provider: string | undefined, model: string, usage: CostUsage): number {
+  const price = lookupPrice(pricing, provider, model);
+  if (!price) return 0;
+  const cached = Math.min(usage.cached_tokens || 0, usage.tokens_in);
+  const cost =
+    (usage.tokens_in - cached) * price.input +
+    cached * (price.cached_input ?? price.input) +
+    usage.tokens_out * price.output;
+  return cost / 1_000_000;
+}
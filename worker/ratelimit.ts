@@ -0,0 +1,188 @@
+// Sliding-window rate limiting (requests and tokens per minute) per client and model
+
+export interface RateLimits {
+  /** Requests per minute (0 or unset = unlimited) */
+  rpm?: number;
+  /** Tokens per minute (0 or unset = unlimited) */
+  tpm?: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limits: RateLimits;
+  remainingRequests: number;
+  remainingTokens: number;
+  /** Time until the oldest request / token entry leaves the window */
+  resetRequestsMs: number;
+  resetTokensMs: number;
+  /** When rejected: time until the request would be allowed */
+  retryAfterMs: number;
+}
+
+/** Pluggable limiter; buckets are "client:model" strings */
+export interface RateLimiter {
+  /** Check the limits and, if allowed, count the request */
+  acquire(bucket: string, limits: RateLimits): Promise<RateLimitResult>;
+  /** Charge tokens used by a completed request */
+  recordTokens(bucket: string, tokens: number): Promise<void>;
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Sliding log of request timestamps and token charges over the last minute
+ */
+export class SlidingWindow {
+  private requests: number[] = [];
+  private tokens: { ts: number; tokens: number }[] = [];
+
+  acquire(limits: RateLimits, now = Date.now()): RateLimitResult {
+    this.prune(now);
+    const rpm = limits.rpm || 0;
+    const tpm = limits.tpm || 0;
+    const usedTokens = this.tokens.reduce((sum, t) => sum + t.tokens, 0);
+
+    const requestsFull = rpm > 0 && this.requests.length >= rpm;
+    const tokensFull = tpm > 0 && usedTokens >= tpm;
+    const allowed = !requestsFull && !tokensFull;
+    if (allowed) this.requests.push(now);
+
+    // Time until enough old entries expire to get back under each limit
+    let retryAfterMs = 0;
+    if (requestsFull) {
+      retryAfterMs = this.requests[this.requests.length - rpm] + WINDOW_MS - now;
+    }
+    if (tokensFull) {
+      let excess = usedTokens - tpm;
+      for (const t of this.tokens) {
+        excess -= t.tokens;
+        if (excess < 0) {
+          retryAfterMs = Math.max(retryAfterMs, t.ts + WINDOW_MS - now);
+          break;
+        }
+      }
+    }
+
+    return {
+      allowed,
+      limits,
+      remainingRequests: rpm > 0 ? Math.max(0, rpm - this.requests.length) : Infinity,
+      remainingTokens: tpm > 0 ? Math.max(0, tpm - usedTokens) : Infinity,
+      resetRequestsMs: this.requests.length ? this.requests[0] + WINDOW_MS - now : 0,
+      resetTokensMs: this.tokens.length ? this.tokens[0].ts + WINDOW_MS - now : 0,
+      retryAfterMs: Math.max(0, retryAfterMs),
+    };
+  }
+
+  record(tokens: number, now = Date.now()): void {
+    if (tokens > 0) this.tokens.push({ ts: now, tokens });
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - WINDOW_MS;
+    while (this.requests.length && this.requests[0] <= cutoff) this.requests.shift();
+    while (this.tokens.length && this.tokens[0].ts <= cutoff) this.tokens.shift();
+  }
+}
+
+/** In-memory limiter (per isolate, for tests and local development) */
+export class MemoryRateLimiter implements RateLimiter {
+  private readonly windows = new Map<string, SlidingWindow>();
+
+  async acquire(bucket: string, limits: RateLimits): Promise<RateLimitResult> {
+    return this.window(bucket).acquire(limits);
+  }
+
+  async recordTokens(bucket: string, tokens: number): Promise<void> {
+    this.window(bucket).record(tokens);
+  }
+
+  private window(bucket: string): SlidingWindow {
+    let window = this.windows.get(bucket);
+    if (!window) {
+      window = new SlidingWindow();
+      this.windows.set(bucket, window);
+    }
+    return window;
+  }
+}
+
+/** Limiter backed by one RateLimiterObject per bucket, so limits hold across isolates */
+export class DurableObjectRateLimiter implements RateLimiter {
+  constructor(private readonly namespace: DurableObjectNamespace) {}
+
+  async acquire(bucket: string, limits: RateLimits): Promise<RateLimitResult> {
+    const res = await this.stub(bucket).fetch('https://rate-limiter/acquire', {
+      method: 'POST',
+      body: JSON.stringify(limits),
+    });
+    const result = await res.json() as RateLimitResult;
+    // Infinity does not survive JSON (serialized as null)
+    result.remainingRequests ??= Infinity;
+    result.remainingTokens ??= Infinity;
+    return result;
+  }
+
+  async recordTokens(bucket: string, tokens: number): Promise<void> {
+    await this.stub(bucket).fetch('https://rate-limiter/record', {
+      method: 'POST',
+      body: JSON.stringify({ tokens }),
+    });
+  }
+
+  private stub(bucket: string) {
+    return this.namespace.get(this.namespace.idFromName(bucket));
+  }
+}
+
+/**
+ * Durable Object holding the sliding window of one bucket. The window lives in memory only
+ * and is lost whenever the object restarts, including on every deploy, so a bucket may briefly
+ * get up to one extra window's worth of requests and tokens.
+ */
+export class RateLimiterObject {
+  private readonly window = new SlidingWindow();
+
+  constructor(_state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const path = new URL(request.url).pathname;
+    const body = await request.json() as RateLimits & { tokens?: number };
+
+    if (path === '/acquire') {
+      return new Response(JSON.stringify(this.window.acquire(body)));
+    }
+    if (path === '/record') {
+      this.window.record(body.tokens || 0);
+      return new Response(null, { status: 204 });
+    }
+    return new Response('Not found', { status: 404 });
+  }
+}
+
+/** Format a duration like OpenAI's x-ratelimit-reset-* headers ("20ms", "1s", "6m0s") */
+export function formatResetDuration(ms: number): string {
+  if (ms < 1000) return `${Math.max(0, Math.ceil(ms))}ms`;
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m${seconds % 60}s` : `${seconds}s`;
+}
+
+/** OpenAI-style x-ratelimit-* headers (only for configured limits) */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (result.limits.rpm) {
+    headers['x-ratelimit-limit-requests'] = String(result.limits.rpm);
+    headers['x-ratelimit-remaining-requests'] = String(result.remainingRequests);
+    headers['x-ratelimit-reset-requests'] = formatResetDuration(result.resetRequestsMs);
+  }
+  if (result.limits.tpm) {
+    headers['x-ratelimit-limit-tokens'] = String(result.limits.tpm);
+    headers['x-ratelimit-remaining-tokens'] = String(result.remainingTokens);
+    headers['x-ratelimit-reset-tokens'] = formatResetDuration(result.resetTokensMs);
+  }
+  if (!result.allowed) {
+    headers['retry-after'] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)));
+  }
+  return headers;
+}
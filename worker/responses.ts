@@ -0,0 +1,468 @@
+import {
+  AIGatewayError,
+  AIGatewayErrorCode,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type ContentPart,
+  type FinishReason,
+  type Message,
+  type Tool,
+  type ToolCall,
+  type ToolChoice,
+} from '../src';
+
+// OpenAI Responses API (/v1/responses) <-> chat completion translation
+
+interface ResponsesContentPart {
+  type: 'input_text' | 'output_text' | 'input_image' | 'refusal' | string;
+  text?: string;
+  refusal?: string;
+  image_url?: string;
+  detail?: 'auto' | 'low' | 'high';
+}
+
+export interface ResponsesInputItem {
+  type?: 'message' | 'function_call' | 'function_call_output' | string;
+  role?: 'user' | 'assistant' | 'system' | 'developer';
+  content?: string | ResponsesContentPart[];
+  id?: string;
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  output?: string;
+}
+
+export interface ResponsesRequest {
+  model?: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  previous_response_id?: string;
+  tools?: { type: string; name?: string; description?: string; parameters?: Record<string, unknown> }[];
+  tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; name: string };
+  parallel_tool_calls?: boolean;
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  store?: boolean;
+  metadata?: Record<string, string>;
+}
+
+export interface ResponsesOutputItem {
+  type: 'message' | 'function_call';
+  id: string;
+  status: 'in_progress' | 'completed';
+  role?: 'assistant';
+  content?: { type: 'output_text'; text: string; annotations: unknown[] }[];
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface ResponseObject {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'in_progress' | 'completed' | 'incomplete';
+  incomplete_details: { reason: string } | null;
+  error: null;
+  model: string;
+  instructions: string | null;
+  previous_response_id: string | null;
+  output: ResponsesOutputItem[];
+  parallel_tool_calls: boolean;
+  tool_choice: ResponsesRequest['tool_choice'];
+  tools: ResponsesRequest['tools'];
+  temperature: number | null;
+  top_p: number | null;
+  max_output_tokens: number | null;
+  store: boolean;
+  metadata: Record<string, string>;
+  usage: { input_tokens: number; output_tokens: number; total_tokens: number } | null;
+}
+
+// ============================================================================
+// Conversation State Store
+// ============================================================================
+
+/**
+ * Conversation state for previous_response_id: the messages of the conversation up to and
+ * including the stored response's output (instructions are not carried over)
+ */
+export interface StoredResponse {
+  id: string;
+  messages: Message[];
+}
+
+/**
+ * Pluggable storage for Responses API conversation state. Entries belong to an owner
+ * (see getTenant) and are only visible to it.
+ */
+export interface ResponseStore {
+  get(owner: string, id: string): Promise<StoredResponse | null>;
+  put(owner: string, response: StoredResponse): Promise<void>;
+}
+
+/** KV-backed store; entries expire after ttlSeconds */
+export class KVResponseStore implements ResponseStore {
+  constructor(private readonly kv: KVNamespace, private readonly ttlSeconds = 30 * 24 * 3600) {}
+
+  async get(owner: string, id: string): Promise<StoredResponse | null> {
+    const raw = await this.kv.get(`response:${owner}:${id}`);
+    return raw ? JSON.parse(raw) as StoredResponse : null;
+  }
+
+  async put(owner: string, response: StoredResponse): Promise<void> {
+    await this.kv.put(`response:${owner}:${response.id}`, JSON.stringify(response), { expirationTtl: this.ttlSeconds });
+  }
+}
+
+/** In-memory store (per isolate, for tests and local development); evicts the oldest entries */
+export class MemoryResponseStore implements ResponseStore {
+  private readonly entries = new Map<string, StoredResponse>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get(owner: string, id: string): Promise<StoredResponse | null> {
+    return this.entries.get(`${owner}:${id}`) ?? null;
+  }
+
+  async put(owner: string, response: StoredResponse): Promise<void> {
+    this.entries.set(`${owner}:${response.id}`, response);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+// ============================================================================
+// Request Translation
+// ============================================================================
+
+export function validateResponsesRequest(body: unknown): body is ResponsesRequest {
+  if (!body || typeof body !== 'object') return false;
+  const req = body as Record<string, unknown>;
+  if (typeof req.input === 'string') return true;
+  return Array.isArray(req.input) && req.input.every(item => !!item && typeof item === 'object');
+}
+
+function toContentPart(part: ResponsesContentPart): ContentPart {
+  if (part.type === 'input_image' && part.image_url) {
+    return { type: 'image_url', image_url: { url: part.image_url, detail: part.detail } };
+  }
+  return { type: 'text', text: part.text ?? part.refusal ?? '' };
+}
+
+function toMessageContent(content: ResponsesInputItem['content']): string | ContentPart[] {
+  if (typeof content === 'string') return content;
+  const parts = (content || []).map(toContentPart);
+  return parts.every(p => p.type === 'text') ? parts.map(p => p.text).join('') : parts;
+}
+
+/** Convert Responses input items to chat messages (function_call items merge into one assistant turn) */
+export function inputToMessages(input: ResponsesRequest['input']): Message[] {
+  if (typeof input === 'string') return [{ role: 'user', content: input }];
+
+  const messages: Message[] = [];
+  for (const item of input) {
+    if (item.type === 'function_call') {
+      const call: ToolCall = {
+        id: item.call_id || item.id || '',
+        type: 'function',
+        function: { name: item.name || '', arguments: item.arguments || '{}' },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === 'assistant' && last.tool_calls) {
+        last.tool_calls.push(call);
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [call] });
+      }
+      continue;
+    }
+
+    if (item.type === 'function_call_output') {
+      messages.push({ role: 'tool', tool_call_id: item.call_id || '', content: item.output ?? '' });
+      continue;
+    }
+
+    const role = item.role === 'developer' ? 'system' : item.role || 'user';
+    messages.push({ role, content: toMessageContent(item.content) });
+  }
+
+  return messages;
+}
+
+function toTools(tools: ResponsesRequest['tools']): Tool[] | undefined {
+  if (!tools?.length) return undefined;
+  return tools.map(t => {
+    if (t.type !== 'function' || !t.name) {
+      throw new AIGatewayError(`Unsupported tool type: ${t.type}`, { status: 400, code: AIGatewayErrorCode.INVALID_REQUEST });
+    }
+    return { type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } };
+  });
+}
+
+function toToolChoice(choice: ResponsesRequest['tool_choice']): ToolChoice | undefined {
+  if (typeof choice === 'object') return { type: 'function', function: { name: choice.name } };
+  return choice;
+}
+
+/**
+ * Convert a Responses request to a chat completion request; history holds the
+ * messages restored from previous_response_id
+ */
+export function toChatRequest(request: ResponsesRequest, history: Message[]): ChatCompletionRequest {
+  const messages: Message[] = [];
+  if (request.instructions) messages.push({ role: 'system', content: request.instructions });
+  messages.push(...history, ...inputToMessages(request.input));
+
+  return {
+    model: request.model,
+    messages,
+    max_tokens: request.max_output_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    stream: request.stream === true,
+    tools: toTools(request.tools),
+    tool_choice: toToolChoice(request.tool_choice),
+    parallel_tool_calls: request.parallel_tool_calls,
+  };
+}
+
+// ============================================================================
+// Response Translation
+// ============================================================================
+
+function randomId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+/** Build a response object skeleton from the request */
+export function createResponseObject(request: ResponsesRequest, model: string): ResponseObject {
+  return {
+    id: randomId('resp'),
+    object: 'response',
+    created_at: Math.floor(Date.now() / 1000),
+    status: 'in_progress',
+    incomplete_details: null,
+    error: null,
+    model,
+    instructions: request.instructions ?? null,
+    previous_response_id: request.previous_response_id ?? null,
+    output: [],
+    parallel_tool_calls: request.parallel_tool_calls ?? true,
+    tool_choice: request.tool_choice ?? 'auto',
+    tools: request.tools ?? [],
+    temperature: request.temperature ?? null,
+    top_p: request.top_p ?? null,
+    max_output_tokens: request.max_output_tokens ?? null,
+    store: request.store !== false,
+    metadata: request.metadata ?? {},
+    usage: null,
+  };
+}
+
+function complete(response: ResponseObject, finishReason: FinishReason): void {
+  if (finishReason === 'length' || finishReason === 'content_filter') {
+    response.status = 'incomplete';
+    response.incomplete_details = { reason: finishReason === 'length' ? 'max_output_tokens' : 'content_filter' };
+  } else {
+    response.status = 'completed';
+  }
+}
+
+/** Fill a response object from a chat completion */
+export function fromChatResponse(response: ResponseObject, chat: ChatCompletionResponse): ResponseObject {
+  const choice = chat.choices[0];
+
+  if (choice?.message.content) {
+    response.output.push({
+      type: 'message',
+      id: randomId('msg'),
+      status: 'completed',
+      role: 'assistant',
+      content: [{ type: 'output_text', text: choice.message.content, annotations: [] }],
+    });
+  }
+  for (const call of choice?.message.tool_calls || []) {
+    response.output.push({
+      type: 'function_call',
+      id: randomId('fc'),
+      status: 'completed',
+      call_id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments,
+    });
+  }
+
+  response.model = chat.model || response.model;
+  response.usage = {
+    input_tokens: chat.usage?.prompt_tokens || 0,
+    output_tokens: chat.usage?.completion_tokens || 0,
+    total_tokens: chat.usage?.total_tokens || 0,
+  };
+  complete(response, choice?.finish_reason ?? null);
+  return response;
+}
+
+/** Convert response output items back to an assistant message for the stored history */
+export function outputToMessage(output: ResponsesOutputItem[]): Message {
+  const text = output
+    .filter(item => item.type === 'message')
+    .map(item => item.content?.map(c => c.text).join('') || '')
+    .join('');
+  const toolCalls: ToolCall[] = output
+    .filter(item => item.type === 'function_call')
+    .map(item => ({
+      id: item.call_id || '',
+      type: 'function',
+      function: { name: item.name || '', arguments: item.arguments || '{}' },
+    }));
+
+  return toolCalls.length
+    ? { role: 'assistant', content: text || null, tool_calls: toolCalls }
+    : { role: 'assistant', content: text };
+}
+
+/** The parts of a chat.completion.chunk that are translated to Responses events */
+interface ChatStreamChunk {
+  model?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index?: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+    finish_reason?: FinishReason;
+  }[];
+}
+
+/**
+ * Create a transformer from OpenAI SSE chunks to Responses streaming events
+ * (response.created, output_item/content_part/output_text/function_call_arguments events,
+ * response.completed). onComplete runs before response.completed is sent, so stored state
+ * is available as soon as the client sees the response finish.
+ */
+export function createResponsesStreamTransformer(
+  response: ResponseObject,
+  onComplete: (response: ResponseObject) => Promise<void>
+): TransformStream<Uint8Array, Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let sequence = 0;
+  let started = false;
+  let finishReason: FinishReason = null;
+  let textItem: ResponsesOutputItem | null = null;
+  const toolItems = new Map<number, ResponsesOutputItem>();
+
+  const send = (controller: TransformStreamDefaultController<Uint8Array>, type: string, data: Record<string, unknown>) => {
+    controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequence++, ...data })}\n\n`));
+  };
+
+  const start = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (started) return;
+    started = true;
+    send(controller, 'response.created', { response: { ...response, output: [] } });
+    send(controller, 'response.in_progress', { response: { ...response, output: [] } });
+  };
+
+  const addItem = (controller: TransformStreamDefaultController<Uint8Array>, item: ResponsesOutputItem): number => {
+    response.output.push(item);
+    const outputIndex = response.output.length - 1;
+    send(controller, 'response.output_item.added', { output_index: outputIndex, item: { ...item, content: item.content && [] } });
+    return outputIndex;
+  };
+
+  const finishItem = (controller: TransformStreamDefaultController<Uint8Array>, item: ResponsesOutputItem) => {
+    const outputIndex = response.output.indexOf(item);
+    if (item.type === 'message') {
+      const part = item.content![0];
+      send(controller, 'response.output_text.done', { item_id: item.id, output_index: outputIndex, content_index: 0, text: part.text });
+      send(controller, 'response.content_part.done', { item_id: item.id, output_index: outputIndex, content_index: 0, part });
+    } else {
+      send(controller, 'response.function_call_arguments.done', { item_id: item.id, output_index: outputIndex, arguments: item.arguments });
+    }
+    item.status = 'completed';
+    send(controller, 'response.output_item.done', { output_index: outputIndex, item });
+  };
+
+  const processLine = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!line.startsWith('data: ')) return;
+    const data = line.slice(6).trim();
+    if (data === '[DONE]') return;
+
+    let chunk: ChatStreamChunk;
+    try {
+      const parsed: unknown = JSON.parse(data);
+      if (!parsed || typeof parsed !== 'object') return;
+      chunk = parsed as ChatStreamChunk;
+    } catch {
+      return;
+    }
+    start(controller);
+
+    if (chunk.usage) {
+      response.usage = {
+        input_tokens: chunk.usage.prompt_tokens || 0,
+        output_tokens: chunk.usage.completion_tokens || 0,
+        total_tokens: chunk.usage.total_tokens || 0,
+      };
+    }
+    if (chunk.model) response.model = chunk.model;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) return;
+
+    if (choice.delta?.content) {
+      if (!textItem) {
+        textItem = { type: 'message', id: randomId('msg'), status: 'in_progress', role: 'assistant', content: [{ type: 'output_text', text: '', annotations: [] }] };
+        const outputIndex = addItem(controller, textItem);
+        send(controller, 'response.content_part.added', {
+          item_id: textItem.id, output_index: outputIndex, content_index: 0, part: { type: 'output_text', text: '', annotations: [] },
+        });
+      }
+      textItem.content![0].text += choice.delta.content;
+      send(controller, 'response.output_text.delta', {
+        item_id: textItem.id, output_index: response.output.indexOf(textItem), content_index: 0, delta: choice.delta.content,
+      });
+    }
+
+    for (const call of choice.delta?.tool_calls || []) {
+      const toolIndex = call.index ?? 0;
+      let item = toolItems.get(toolIndex);
+      if (!item) {
+        item = { type: 'function_call', id: randomId('fc'), status: 'in_progress', call_id: call.id || randomId('call'), name: call.function?.name || '', arguments: '' };
+        toolItems.set(toolIndex, item);
+        addItem(controller, item);
+      }
+      if (call.function?.arguments) {
+        item.arguments += call.function.arguments;
+        send(controller, 'response.function_call_arguments.delta', {
+          item_id: item.id, output_index: response.output.indexOf(item), delta: call.function.arguments,
+        });
+      }
+    }
+
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) processLine(line, controller);
+    },
+    async flush(controller) {
+      buffer += decoder.decode();
+      if (buffer) processLine(buffer, controller);
+
+      start(controller);
+      for (const item of response.output) finishItem(controller, item);
+      complete(response, finishReason);
+      await onComplete(response);
+      send(controller, response.status === 'completed' ? 'response.completed' : 'response.incomplete', { response });
+    },
+  });
+}
@@ -0,0 +1,88 @@
+import type { Message } from '../src';
+
+// Semantic cache: nearest-neighbour lookup of earlier prompts by embedding, scoped per tenant, model and
+// conversation context (everything in the request except the last user message).
+// The vector store only holds ids; cached completions live in the response cache store.
+
+export interface VectorMatch {
+  id: string;
+  /** Cosine similarity (1 = identical) */
+  score: number;
+}
+
+/** Pluggable vector store */
+export interface VectorStore {
+  /** Closest vector within a scope */
+  query(vector: number[], scope: string): Promise<VectorMatch | null>;
+  upsert(id: string, vector: number[], scope: string): Promise<void>;
+}
+
+/**
+ * Vectorize-backed store. The index must use the cosine metric and the embedding
+ * model's dimensions, with a metadata index on "scope" for filtering.
+ */
+export class VectorizeStore implements VectorStore {
+  constructor(private readonly index: VectorizeIndex) {}
+
+  async query(vector: number[], scope: string): Promise<VectorMatch | null> {
+    const result = await this.index.query(vector, { topK: 1, filter: { scope } }) as { matches?: VectorMatch[] };
+    return result.matches?.[0] ?? null;
+  }
+
+  async upsert(id: string, vector: number[], scope: string): Promise<void> {
+    await this.index.upsert([{ id, values: vector, metadata: { scope } }]);
+  }
+}
+
+/** Brute-force in-memory store (per isolate, for tests and local development) */
+export class MemoryVectorStore implements VectorStore {
+  private readonly vectors: { id: string; vector: number[]; scope: string }[] = [];
+
+  async query(vector: number[], scope: string): Promise<VectorMatch | null> {
+    let best: VectorMatch | null = null;
+    for (const entry of this.vectors) {
+      if (entry.scope !== scope) continue;
+      const score = cosineSimilarity(vector, entry.vector);
+      if (!best || score > best.score) best = { id: entry.id, score };
+    }
+    return best;
+  }
+
+  async upsert(id: string, vector: number[], scope: string): Promise<void> {
+    this.vectors.push({ id, vector, scope });
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Text of the last user message (text parts joined), or null when there is none */
+export function lastUserMessageText(messages: Message[]): string | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== 'user') continue;
+    const text = typeof message.content === 'string'
+      ? message.content
+      : (message.content || []).filter(p => p.type === 'text' && p.text).map(p => p.text).join('\n');
+    return text.trim() || null;
+  }
+  return null;
+}
+
+/** The messages without the last user message: the context a semantic cache hit must share */
+export function withoutLastUserMessage(messages: Message[]): Message[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return [...messages.slice(0, i), ...messages.slice(i + 1)];
+  }
+  return messages;
+}
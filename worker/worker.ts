@@ -2,33 +2,177 @@
  * Edge AI Gateway - Deployable Cloudflare Worker
  *
  * Secure AI API proxy with API keys stored in Cloudflare environment variables.
- * Supports Azure OpenAI, Azure AI Foundry, OpenAI, and Cloudflare AI.
+ * Supports Azure OpenAI, Azure AI Foundry, OpenAI, Anthropic, AWS Bedrock, Cloudflare AI,
+ * Mistral, Groq, DeepSeek and OpenRouter.
  */
 
 import {
   createProvider,
+  getProviderRegistration,
+  listProviders,
   AIGatewayError,
   AIGatewayErrorCode,
+  FallbackProvider,
+  LoadBalancedProvider,
+  PROVIDER_PRESETS,
+  ANTHROPIC_IMAGE_LIMITS,
+  claudeSupportsVision,
+  fromAnthropicResponse,
+  toAnthropicRequest,
+  GEMINI_IMAGE_LIMITS,
+  geminiSupportsVision,
+  toGeminiRequest,
+  fromGeminiResponse,
+  transformGeminiStream,
+  completionToStream,
+  onStreamEnd,
+  parseImageUrl,
+  type AIProvider,
+  type AnthropicResponse,
   type AnyProviderConfig,
+  type PresetType,
+  type ProviderType,
   type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type ChatOptions,
+  type GeminiResponse,
+  type Message,
 } from '../src';
 
 import {
   getClientEnv,
   getEndpoint,
+  getTenant,
   inferModelSource,
   safeExtractChatUsage,
   safeParseChatRequestModel,
+  tapChatStream,
+  type UsageContext,
   type UsageEvent,
 } from './metrics';
 
+import {
+  anthropicErrorType,
+  createMessagesStreamTransformer,
+  fromAnthropicRequest,
+  toAnthropicMessage,
+  validateMessagesRequest,
+} from './messages';
+
+import {
+  KVResponseStore,
+  MemoryResponseStore,
+  createResponseObject,
+  createResponsesStreamTransformer,
+  fromChatResponse,
+  inputToMessages,
+  outputToMessage,
+  toChatRequest,
+  validateResponsesRequest,
+  type ResponseObject,
+  type ResponseStore,
+} from './responses';
+
+import {
+  CATALOG_PREFIXES,
+  EMBEDDING_MODELS,
+  KNOWN_MODELS,
+  modelCapabilities,
+  type CatalogModel,
+} from './models';
+
+import {
+  DEFAULT_PAGE_SIZE,
+  KVKeyStore,
+  MAX_PAGE_SIZE,
+  MemoryKeyStore,
+  assertModelAllowed,
+  createVirtualKey,
+  getPresentedKey,
+  isEndpointAllowed,
+  isModelAllowed,
+  parseKeyPolicy,
+  resolveVirtualKey,
+  rotateVirtualKey,
+  timingSafeEqual,
+  toPublicKey,
+  type KeyEndpoint,
+  type KeyPolicy,
+  type KeyStore,
+  type VirtualKey,
+} from './keys';
+
+import {
+  KVAuditStore,
+  MemoryAuditStore,
+  type AuditEvent,
+  type AuditStore,
+} from './audit';
+
+import {
+  DurableObjectRateLimiter,
+  MemoryRateLimiter,
+  rateLimitHeaders,
+  type RateLimiter,
+  type RateLimits,
+} from './ratelimit';
+
+export { RateLimiterObject } from './ratelimit';
+
+import {
+  DurableObjectBudgetStore,
+  MemoryBudgetStore,
+  budgetHeaders,
+  chargeBudgets,
+  getBudgetStatus,
+  type Budget,
+  type BudgetScope,
+  type BudgetStatus,
+  type BudgetStore,
+} from './budgets';
+
+export { BudgetCounterObject } from './budgets';
+
+import { computeCostUsd, resolvePricing } from './pricing';
+
+import {
+  CacheApiStore,
+  KVCacheStore,
+  MemoryCacheStore,
+  computeCacheKey,
+  getCacheOptions,
+  type CacheOptions,
+  type CacheStore,
+} from './cache';
+
+import type { DeploymentPool } from './deployments';
+
+import { applyModelAlias, resolveModelAlias } from './aliases';
+
+import {
+  configFromEnv,
+  DEFAULT_ROUTES,
+  parseGatewayConfig,
+  redactConfig,
+  resolveSecrets,
+  type GatewayConfig,
+  type ProviderEntry,
+} from './config';
+
+import { MemoryVectorStore, VectorizeStore, lastUserMessageText, withoutLastUserMessage, type VectorStore } from './semantic';
+
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface Env {
-  // General config
-  AI_PROVIDER: 'azure' | 'azure-foundry' | 'openai' | 'cloudflare' | 'vertex';
+  // General config (required unless GATEWAY_CONFIG sets default_provider)
+  AI_PROVIDER?: 'azure' | 'azure-foundry' | 'openai' | 'anthropic' | 'bedrock' | 'cloudflare' | 'vertex' | 'custom' | PresetType;
+
+  // Optional: declarative gateway config (providers, routes, aliases, defaults, fallback chain,
+  // deployments) as a JSON string or a [vars.GATEWAY_CONFIG] table; replaces the provider
+  // variables below for chat routing. Credentials are referenced as "$SECRET_NAME".
+  GATEWAY_CONFIG?: string | Record<string, unknown>;
 
   // Metrics (Cloudflare Analytics Engine)
   AE?: AnalyticsEngineDataset;
@@ -61,11 +205,43 @@ export interface Env {
   OPENAI_BASE_URL?: string;
   OPENAI_ORGANIZATION?: string;
 
+  // Anthropic API (takes over the anthropic/ prefix from Anthropic on Vertex when set)
+  ANTHROPIC_API_KEY?: string;
+  ANTHROPIC_BASE_URL?: string;
+  ANTHROPIC_BETA?: string;  // comma-separated anthropic-beta features
+  ANTHROPIC_MODEL?: string;
+
+  // AWS Bedrock (Converse API, SigV4-signed)
+  AWS_ACCESS_KEY_ID?: string;
+  AWS_SECRET_ACCESS_KEY?: string;
+  AWS_SESSION_TOKEN?: string;
+  AWS_REGION?: string;  // default: us-east-1
+  BEDROCK_MODEL?: string;  // model ID or inference profile, e.g. us.anthropic.claude-3-5-sonnet-20241022-v2:0
+  BEDROCK_ENDPOINT?: string;  // VPC endpoint or local stub
+
   // Cloudflare AI
   CF_ACCOUNT_ID?: string;
   CF_API_TOKEN?: string;
   CF_MODEL?: string;
 
+  // Custom OpenAI-compatible backend (vLLM, Ollama, LM Studio, TGI, LiteLLM); path overrides,
+  // model quirks and several named backends are configured in GATEWAY_CONFIG
+  CUSTOM_BASE_URL?: string;
+  CUSTOM_API_KEY?: string;
+  CUSTOM_AUTH_HEADER?: string;  // default: Authorization
+  CUSTOM_AUTH_SCHEME?: string;  // default: Bearer for Authorization, none for other headers
+  CUSTOM_MODEL?: string;
+
+  // OpenAI-compatible vendor presets (mistral/, groq/, deepseek/, openrouter/ prefixes)
+  MISTRAL_API_KEY?: string;
+  MISTRAL_MODEL?: string;
+  GROQ_API_KEY?: string;
+  GROQ_MODEL?: string;
+  DEEPSEEK_API_KEY?: string;
+  DEEPSEEK_MODEL?: string;
+  OPENROUTER_API_KEY?: string;
+  OPENROUTER_MODEL?: string;
+
   // Google Vertex AI / Gemini
   GCP_PROJECT_ID?: string;
   GCP_REGION?: string;
@@ -74,13 +250,79 @@ export interface Env {
   VERTEX_API_KEY?: string;  // Vertex AI API Key (alternative to Service Account)
   VERTEX_DEFAULT_MODEL?: string;
 
+  // Optional: KV namespace holding hashed virtual API keys and the admin audit log; when
+  // bound, a virtual key (or CLIENT_API_KEY) is required and the client identity comes from the key
+  KEYS_KV?: KVNamespace;
+
+  // Optional: KV namespace for Responses API conversation state (previous_response_id);
+  // falls back to per-isolate memory
+  RESPONSES_KV?: KVNamespace;
+
+  // Optional: rate limiting per client and model (sliding 60s window). Defaults for every
+  // client; virtual keys can override them. Backed by the RATE_LIMITER Durable Object when
+  // bound, otherwise per-isolate memory.
+  RATE_LIMIT_RPM?: string;
+  RATE_LIMIT_TPM?: string;
+  RATE_LIMITER?: DurableObjectNamespace;
+
+  // Optional: token/cost budgets per x-env as JSON, e.g. {"prod": {"monthly_cost_usd": 500}};
+  // virtual keys carry their own budget. Counters live in one BudgetCounterObject per scope
+  // (BUDGET_COUNTERS), or per-isolate memory when it is not bound.
+  ENV_BUDGETS?: string;
+  BUDGET_COUNTERS?: DurableObjectNamespace;
+
+  // Optional: exact-match response cache (opt-in per request with x-gateway-cache: true).
+  // Uses CACHE_KV when bound, otherwise the Cache API; default TTL 3600 seconds.
+  CACHE_KV?: KVNamespace;
+  CACHE_TTL_SECONDS?: string;
+
+  // Optional: semantic cache (x-gateway-cache: semantic). Vectorize index (cosine metric, metadata index
+  // on "scope"); without it an in-memory store is used. Prompts are embedded via the embeddings backend.
+  SEMANTIC_CACHE_INDEX?: VectorizeIndex;
+  SEMANTIC_CACHE_THRESHOLD?: string; // minimum cosine similarity, default 0.95
+  SEMANTIC_CACHE_EMBEDDING_MODEL?: string; // default text-embedding-3-small
+
+  // Optional: model prices in USD per 1M tokens, merged over the built-in registry (worker/pricing.ts).
+  // Keys are model names or provider/model, e.g. {"azure/gpt-4o": {"input": 2.5, "output": 10, "cached_input": 1.25}}
+  MODEL_PRICING?: string;
+
+  // Optional: load-balanced pools of deployments per logical model as JSON, e.g.
+  // {"gpt-4o": {"strategy": "least-in-flight", "deployments": [{"provider": {"type": "azure", "endpoint": "...",
+  // "apiKey": "$AZURE_KEY_EASTUS", "deployment": "gpt-4o"}, "weight": 2}, {"model": "openai/gpt-4o"}]}}
+  MODEL_DEPLOYMENTS?: string;
+
+  // Optional: model aliases as JSON, e.g. {"fast": "gemini/gemini-2.0-flash",
+  // "smart": {"model": "foundry/gpt-4o", "params": {"temperature": 0.2}, "system": "Answer concisely."}}
+  MODEL_ALIASES?: string;
+
+  // Optional: ordered fallback chain of prefixed models, comma-separated
+  // e.g. "azure-foundry/gpt-4o,openai/gpt-4o,gemini/gemini-2.0-flash"
+  FALLBACK_CHAIN?: string;
+
   // Optional: Client API key for authentication
   CLIENT_API_KEY?: string;
 
+  // Optional: Admin credential for /admin/* (distinct from CLIENT_API_KEY; admin API is off without it)
+  ADMIN_API_KEY?: string;
+
   // Optional: Allowed origins for CORS
   ALLOWED_ORIGINS?: string;
 }
 
+/** Per-request state passed from the fetch handler to route handlers */
+interface RequestContext {
+  /** Virtual key presented by the caller (null for CLIENT_API_KEY, Service Bindings or open access) */
+  key: VirtualKey | null;
+  /** Rate-limit bucket this request was counted against; its token usage is charged there */
+  rateLimit: { bucket: string; limiter: RateLimiter } | null;
+  /** Budgets this request is charged to */
+  budgets: BudgetScope[];
+  /** Response cache options when the caller opted in */
+  cache: CacheOptions | null;
+  /** Keep the isolate alive for background work (usage events, budget charges) after responding */
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
 interface TTSRequest {
   model?: string;
   input: string;
@@ -94,6 +336,8 @@ interface EmbeddingsRequest {
 }
 
 interface TTSProviderConfig {
+  /** Model the request is served with (checked against the virtual key's models) */
+  model: string;
   url: string;
   headers: Record<string, string>;
   body: Record<string, unknown>;
@@ -103,6 +347,47 @@ interface TTSProviderConfig {
 // Utilities
 // ============================================================================
 
+/**
+ * Request headers browser clients may send: credentials (Bearer or x-api-key), the headers the
+ * OpenAI and Anthropic SDKs add, and the gateway's own caller and cache headers
+ */
+const CORS_ALLOW_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'x-api-key',
+  'anthropic-version',
+  'anthropic-beta',
+  'anthropic-dangerous-direct-browser-access',
+  'x-stainless-arch',
+  'x-stainless-lang',
+  'x-stainless-os',
+  'x-stainless-package-version',
+  'x-stainless-retry-count',
+  'x-stainless-runtime',
+  'x-stainless-runtime-version',
+  'x-stainless-timeout',
+  'x-client-id',
+  'x-env',
+  'x-gateway-cache',
+  'x-gateway-cache-ttl',
+].join(', ');
+
+/** Response headers browser clients may read: rate limits, budgets and cache status */
+const CORS_EXPOSE_HEADERS = [
+  'x-ratelimit-limit-requests',
+  'x-ratelimit-remaining-requests',
+  'x-ratelimit-reset-requests',
+  'x-ratelimit-limit-tokens',
+  'x-ratelimit-remaining-tokens',
+  'x-ratelimit-reset-tokens',
+  'retry-after',
+  'x-budget-remaining-tokens',
+  'x-budget-remaining-usd',
+  'x-budget-warning',
+  'x-cache',
+  'x-cache-similarity',
+].join(', ');
+
 /**
  * Build CORS headers based on request origin and allowed origins
  */
@@ -116,8 +401,10 @@ function getCorsHeaders(origin: string | null, allowedOrigins?: string): Headers
 
   return {
     'Access-Control-Allow-Origin': allowOrigin,
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    // GET /v1/models, and the admin API
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': CORS_ALLOW_HEADERS,
+    'Access-Control-Expose-Headers': CORS_EXPOSE_HEADERS,
   };
 }
 
@@ -144,6 +431,8 @@ async function writeUsageEvent(env: Env, event: UsageEvent): Promise<void> {
         event.endpoint,
         event.model,
         event.model_source,
+        event.provider,
+        event.alias ?? '',
       ],
       doubles: [
         event.tokens_in,
@@ -151,6 +440,10 @@ async function writeUsageEvent(env: Env, event: UsageEvent): Promise<void> {
         event.latency_ms,
         event.status,
         event.ts,
+        event.ttft_ms ?? 0,
+        event.cost_usd,
+        event.cached_tokens ?? 0,
+        event.cache_hit ? 1 : 0,
       ],
     });
   } catch {
@@ -181,96 +474,6 @@ function streamResponse(stream: ReadableStream, corsHeaders: HeadersInit): Respo
   });
 }
 
-// ============================================================================
-// Provider Configuration
-// ============================================================================
-
-/**
- * Create provider configuration from environment variables
- */
-function createProviderConfig(env: Env): AnyProviderConfig {
-  switch (env.AI_PROVIDER) {
-    case 'azure':
-      if (!env.AZURE_ENDPOINT || !env.AZURE_API_KEY) {
-        throw new AIGatewayError('Azure endpoint and API key are required', {
-          status: 500,
-          code: AIGatewayErrorCode.CONFIG_ERROR,
-        });
-      }
-      return {
-        type: 'azure',
-        endpoint: env.AZURE_ENDPOINT,
-        apiKey: env.AZURE_API_KEY,
-        deployment: env.AZURE_DEPLOYMENT || 'gpt-4o',
-        apiVersion: env.AZURE_API_VERSION || '2024-02-15-preview',
-      };
-
-    case 'azure-foundry':
-      if (!env.AZURE_FOUNDRY_ENDPOINT || !env.AZURE_FOUNDRY_API_KEY) {
-        throw new AIGatewayError('Azure Foundry endpoint and API key are required', {
-          status: 500,
-          code: AIGatewayErrorCode.CONFIG_ERROR,
-        });
-      }
-      return {
-        type: 'azure-foundry',
-        endpoint: env.AZURE_FOUNDRY_ENDPOINT,
-        apiKey: env.AZURE_FOUNDRY_API_KEY,
-        model: env.AZURE_FOUNDRY_MODEL || 'gpt-4o',
-      };
-
-    case 'openai':
-      if (!env.OPENAI_API_KEY) {
-        throw new AIGatewayError('OpenAI API key is required', {
-          status: 500,
-          code: AIGatewayErrorCode.CONFIG_ERROR,
-        });
-      }
-      return {
-        type: 'openai',
-        apiKey: env.OPENAI_API_KEY,
-        baseUrl: env.OPENAI_BASE_URL,
-        organization: env.OPENAI_ORGANIZATION,
-      };
-
-    case 'cloudflare':
-      if (!env.CF_ACCOUNT_ID || !env.CF_API_TOKEN) {
-        throw new AIGatewayError('Cloudflare account ID and API token are required', {
-          status: 500,
-          code: AIGatewayErrorCode.CONFIG_ERROR,
-        });
-      }
-      return {
-        type: 'cloudflare',
-        accountId: env.CF_ACCOUNT_ID,
-        apiToken: env.CF_API_TOKEN,
-        model: env.CF_MODEL,
-      };
-
-    case 'vertex':
-      if (!env.GCP_PROJECT_ID && !env.GEMINI_API_KEY) {
-        throw new AIGatewayError('GCP project ID or Gemini API key is required', {
-          status: 500,
-          code: AIGatewayErrorCode.CONFIG_ERROR,
-        });
-      }
-      return {
-        type: 'vertex',
-        projectId: env.GCP_PROJECT_ID || '',
-        region: env.GCP_REGION || 'us-central1',
-        serviceAccountJson: env.GCP_SERVICE_ACCOUNT_JSON,
-        geminiApiKey: env.GEMINI_API_KEY,
-        defaultModel: env.VERTEX_DEFAULT_MODEL || 'gemini-2.0-flash',
-      };
-
-    default:
-      throw new AIGatewayError(`Unknown provider: ${env.AI_PROVIDER}`, {
-        status: 400,
-        code: AIGatewayErrorCode.CONFIG_ERROR,
-      });
-  }
-}
-
 // ============================================================================
 // TTS Handling
 // ============================================================================
@@ -287,6 +490,7 @@ function getTTSConfig(body: TTSRequest, env: Env): TTSProviderConfig | null {
     const deployment = body.model || 'gpt-4o-mini-tts';
     const apiVersion = env.AZURE_TTS_API_VERSION || '2025-03-01-preview';
     return {
+      model: deployment,
       url: `${env.AZURE_TTS_ENDPOINT}/openai/deployments/${deployment}/audio/speech?api-version=${apiVersion}`,
       headers: {
         'Content-Type': 'application/json',
@@ -304,6 +508,7 @@ function getTTSConfig(body: TTSRequest, env: Env): TTSProviderConfig | null {
   // Priority 2: Azure AI Foundry
   if (env.AZURE_FOUNDRY_ENDPOINT && env.AZURE_FOUNDRY_API_KEY) {
     return {
+      model: body.model || 'gpt-4o-mini-tts',
       url: `${env.AZURE_FOUNDRY_ENDPOINT}/models/audio/speech`,
       headers: {
         'Content-Type': 'application/json',
@@ -323,6 +528,7 @@ function getTTSConfig(body: TTSRequest, env: Env): TTSProviderConfig | null {
     const deployment = body.model?.replace('gpt-4o-mini-', '') || 'tts';
     const apiVersion = env.AZURE_API_VERSION || '2024-02-15-preview';
     return {
+      model: body.model || deployment,
       url: `${env.AZURE_ENDPOINT}/openai/deployments/${deployment}/audio/speech?api-version=${apiVersion}`,
       headers: {
         'Content-Type': 'application/json',
@@ -340,6 +546,7 @@ function getTTSConfig(body: TTSRequest, env: Env): TTSProviderConfig | null {
   if (env.OPENAI_API_KEY) {
     const baseUrl = (env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
     return {
+      model: body.model || 'tts-1',
       url: `${baseUrl}/audio/speech`,
       headers: {
         'Content-Type': 'application/json',
@@ -363,7 +570,8 @@ function getTTSConfig(body: TTSRequest, env: Env): TTSProviderConfig | null {
 async function handleTTS(
   request: Request,
   env: Env,
-  corsHeaders: HeadersInit
+  corsHeaders: HeadersInit,
+  ctx: RequestContext
 ): Promise<Response> {
   let body: TTSRequest;
   
@@ -382,6 +590,7 @@ async function handleTTS(
   if (!config) {
     return errorResponse('No TTS provider configured', 500, corsHeaders);
   }
+  assertModelAllowed(ctx.key, config.model);
 
   try {
     const response = await fetch(config.url, {
@@ -420,7 +629,70 @@ function validateEmbeddingsRequest(body: unknown): body is EmbeddingsRequest {
   return false;
 }
 
-async function handleEmbeddings(request: Request, env: Env, corsHeaders: HeadersInit): Promise<Response> {
+interface EmbeddingsUpstream {
+  provider: string;
+  url: string;
+  apiKey: string;
+}
+
+/**
+ * Embeddings backend: Azure OpenAI if configured (the model is the deployment name);
+ * fallback: Azure Foundry has an OpenAI-compatible endpoint at /openai/deployments/<model>/embeddings
+ */
+function resolveEmbeddingsUpstream(env: Env, model: string): EmbeddingsUpstream | null {
+  if (env.AZURE_ENDPOINT && env.AZURE_API_KEY) {
+    const apiVersion = env.AZURE_API_VERSION || '2024-02-15-preview';
+    return {
+      provider: 'azure',
+      url: `${env.AZURE_ENDPOINT}/openai/deployments/${model}/embeddings?api-version=${apiVersion}`,
+      apiKey: env.AZURE_API_KEY,
+    };
+  }
+  if (env.AZURE_FOUNDRY_ENDPOINT && env.AZURE_FOUNDRY_API_KEY) {
+    return {
+      provider: 'azure-foundry',
+      url: `${env.AZURE_FOUNDRY_ENDPOINT}/openai/deployments/${model}/embeddings?api-version=2024-10-21`,
+      apiKey: env.AZURE_FOUNDRY_API_KEY,
+    };
+  }
+  return null;
+}
+
+function fetchEmbeddings(upstream: EmbeddingsUpstream, input: string[]): Promise<Response> {
+  return fetch(upstream.url, {
+    method: 'POST',
+    headers: {
+      'api-key': upstream.apiKey,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ input }),
+  });
+}
+
+/**
+ * Charge an embeddings response's prompt tokens in the background (the response body is passed
+ * through as-is); returns what is charged
+ */
+function chargeEmbeddingsUsage(
+  ctx: RequestContext,
+  env: Env,
+  provider: string,
+  model: string,
+  responseText: string
+): { tokens_in: number; cost_usd: number } {
+  try {
+    const { tokens_in } = safeExtractChatUsage(JSON.parse(responseText));
+    const cost_usd = computeCostUsd(resolvePricing(env.MODEL_PRICING), provider, model, { tokens_in, tokens_out: 0 });
+    ctx.waitUntil(chargeUsage(ctx, env, tokens_in, cost_usd));
+    return { tokens_in, cost_usd };
+  } catch {
+    // best-effort: unparseable usage is not charged
+    return { tokens_in: 0, cost_usd: 0 };
+  }
+}
+
+async function handleEmbeddings(request: Request, env: Env, corsHeaders: HeadersInit, ctx: RequestContext): Promise<Response> {
+  const t0 = Date.now();
   // Parse body
   let body: unknown;
   try {
@@ -435,52 +707,51 @@ async function handleEmbeddings(request: Request, env: Env, corsHeaders: Headers
 
   const req = body as EmbeddingsRequest;
   const model = req.model || 'text-embedding-3-small';
+  assertModelAllowed(ctx.key, model);
   const input = Array.isArray(req.input) ? req.input : [req.input];
 
-  // Prefer Azure OpenAI embeddings if configured
-  if (env.AZURE_ENDPOINT && env.AZURE_API_KEY) {
-    const deployment = model; // user passes deployment name
-    const apiVersion = env.AZURE_API_VERSION || '2024-02-15-preview';
-    const url = `${env.AZURE_ENDPOINT}/openai/deployments/${deployment}/embeddings?api-version=${apiVersion}`;
-
-    const r = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'api-key': env.AZURE_API_KEY,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ input }),
-    });
-
-    const text = await r.text();
-    if (!r.ok) {
-      return errorResponse(`Embeddings provider error: ${text}`, 500, corsHeaders);
-    }
-
-    return new Response(text, { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  const upstream = resolveEmbeddingsUpstream(env, model);
+  if (!upstream) {
+    return errorResponse('Embeddings not configured (AZURE_ENDPOINT/AZURE_API_KEY or AZURE_FOUNDRY_ENDPOINT/AZURE_FOUNDRY_API_KEY required)', 500, corsHeaders);
   }
 
-  // Fallback: Azure Foundry has an OpenAI-compatible embeddings endpoint at /openai/deployments/<model>/embeddings
-  if (env.AZURE_FOUNDRY_ENDPOINT && env.AZURE_FOUNDRY_API_KEY) {
-    const foundryUrl = `${env.AZURE_FOUNDRY_ENDPOINT}/openai/deployments/${model}/embeddings?api-version=2024-10-21`;
-    const r = await fetch(foundryUrl, {
-      method: 'POST',
-      headers: {
-        'api-key': env.AZURE_FOUNDRY_API_KEY,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ input }),
-    });
+  const { client, env: reqEnv } = getClientEnv(request, ctx.key);
+  const recordUsage = (usage: { tokens_in: number; cost_usd: number; status: number; cache_hit?: boolean }) =>
+    ctx.waitUntil(writeUsageEvent(env, {
+      client,
+      env: reqEnv,
+      endpoint: getEndpoint(new URL(request.url).pathname),
+      model,
+      model_source: inferModelSource(req.model, model, false),
+      provider: upstream.provider,
+      tokens_out: 0,
+      ...usage,
+      latency_ms: Date.now() - t0,
+      ts: Date.now(),
+    }));
 
-    const text = await r.text();
-    if (!r.ok) {
-      return errorResponse(`Embeddings provider error: ${text}`, 500, corsHeaders);
+  const cacheKey = ctx.cache
+    ? await computeCacheKey('embeddings', getTenant(request, ctx.key), upstream.provider, model, { input })
+    : null;
+  if (cacheKey) {
+    const cached = await readCache(env, ctx.cache!, cacheKey);
+    if (cached !== null) {
+      // Nothing was spent upstream: no tokens or cost are recorded or charged
+      recordUsage({ tokens_in: 0, cost_usd: 0, status: 200, cache_hit: true });
+      return new Response(cached, { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
+  }
 
-    return new Response(text, { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+  const r = await fetchEmbeddings(upstream, input);
+  const text = await r.text();
+  if (!r.ok) {
+    recordUsage({ tokens_in: 0, cost_usd: 0, status: 500 });
+    return errorResponse(`Embeddings provider error: ${text}`, 500, corsHeaders);
   }
 
-  return errorResponse('Embeddings not configured (AZURE_ENDPOINT/AZURE_API_KEY or AZURE_FOUNDRY_ENDPOINT/AZURE_FOUNDRY_API_KEY required)', 500, corsHeaders);
+  recordUsage({ ...chargeEmbeddingsUsage(ctx, env, upstream.provider, model, text), status: 200 });
+  if (cacheKey) ctx.waitUntil(writeCache(env, ctx.cache!, cacheKey, text));
+  return new Response(text, { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 }
 
 // ============================================================================
@@ -499,33 +770,30 @@ function validateChatRequest(body: unknown): body is ChatCompletionRequest {
   return req.messages.every((msg: unknown) => {
     if (!msg || typeof msg !== 'object') return false;
     const m = msg as Record<string, unknown>;
-    return typeof m.role === 'string' && (typeof m.content === 'string' || Array.isArray(m.content));
+    if (typeof m.role !== 'string') return false;
+    // Assistant turns that only carry tool calls may omit content
+    if ((m.content === null || m.content === undefined) && Array.isArray(m.tool_calls)) return true;
+    return typeof m.content === 'string' || Array.isArray(m.content);
   });
 }
 
 /**
- * Parse model prefix and return provider type + actual model name
- * Supports: gemini/model, vertex/model, azure/model, foundry/model, openai/model
+ * Split a routing prefix off a model name ("azure/gpt-4o" -> provider name from the config's routes + "gpt-4o").
+ * A prefix only counts when the provider it routes to is configured; otherwise the id is left
+ * unchanged for the default provider, so vendor-scoped ids like "meta-llama/..." or "@cf/meta/..."
+ * pass through.
  */
-function parseModelPrefix(model: string | undefined): { provider: string | null; model: string } {
+function parseModelPrefix(
+  model: string | undefined,
+  config: Pick<GatewayConfig, 'routes' | 'providers'>
+): { provider: string | null; model: string } {
   if (!model) return { provider: null, model: '' };
-  
-  const prefixMatch = model.match(/^(gemini|vertex|azure|foundry|openai|cloudflare|vertex-claude|anthropic)\/(.*)/i);
-  if (prefixMatch) {
-    const prefix = prefixMatch[1].toLowerCase();
-    const actualModel = prefixMatch[2];
-    // Map prefixes to provider types
-    const providerMap: Record<string, string> = {
-      'gemini': 'gemini-direct', // Use direct Gemini API call
-      'vertex': 'gemini-direct',
-      'azure': 'azure-foundry',
-      'foundry': 'azure-foundry',
-      'openai': 'openai',
-      'cloudflare': 'cloudflare',
-      'vertex-claude': 'vertex-anthropic', // Anthropic on Vertex AI
-      'anthropic': 'vertex-anthropic',
-    };
-    return { provider: providerMap[prefix] || null, model: actualModel };
+
+  const slash = model.indexOf('/');
+  if (slash > 0) {
+    const prefix = model.slice(0, slash).toLowerCase();
+    const provider = config.routes[prefix] ?? DEFAULT_ROUTES[prefix];
+    if (provider && config.providers[provider]) return { provider, model: model.slice(slash + 1) };
   }
   return { provider: null, model };
 }
@@ -626,36 +894,37 @@ async function getGoogleAccessToken(serviceAccountJson: string): Promise<string>
   return cachedAccessToken;
 }
 
-/** Convert OpenAI messages to Gemini format */
-function toGeminiMessages(messages: Array<{ role: string; content: string | unknown[] }>) {
-  return messages
-    .filter(m => m.role !== 'system')
-    .map(m => ({
-      role: m.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: typeof m.content === 'string' ? m.content : JSON.stringify(m.content) }]
-    }));
+function invalidRequest(message: string): AIGatewayError {
+  return new AIGatewayError(message, { status: 400, code: AIGatewayErrorCode.INVALID_REQUEST });
+}
+
+/** Reject image input for models without vision support */
+function assertVisionSupport(messages: Message[], model: string, supportsVision: boolean): void {
+  const hasImage = messages.some(m => Array.isArray(m.content) && m.content.some(p => p.type === 'image_url'));
+  if (hasImage && !supportsVision) {
+    throw invalidRequest(`Model '${model}' does not support image input`);
+  }
+}
+
+/** Build Gemini request body (contents, system instruction, tools, generation config) from an OpenAI request */
+function buildGeminiBody(request: ChatCompletionRequest, model: string): Record<string, unknown> {
+  assertVisionSupport(request.messages, model, geminiSupportsVision(model));
+  return toGeminiRequest(request, { parseImage: (url) => parseImageUrl(url, GEMINI_IMAGE_LIMITS) });
 }
 
 /** Call Vertex AI directly with Service Account auth */
 async function callVertexAI(
   model: string,
-  messages: Array<{ role: string; content: string | unknown[] }>,
+  request: ChatCompletionRequest,
   projectId: string,
   region: string,
   serviceAccountJson: string,
   corsHeaders: HeadersInit,
-  vertexApiKey?: string
+  vertexApiKey?: string,
+  signal?: AbortSignal
 ): Promise<Response> {
   try {
-    const geminiMessages = toGeminiMessages(messages);
-    const systemMsg = messages.find(m => m.role === 'system');
-    
-    const body: Record<string, unknown> = { contents: geminiMessages };
-    if (systemMsg) {
-      body.systemInstruction = { 
-        parts: [{ text: typeof systemMsg.content === 'string' ? systemMsg.content : JSON.stringify(systemMsg.content) }] 
-      };
-    }
+    const body = buildGeminiBody(request, model);
 
     // Use API Key if available, otherwise use OAuth2
     let url: string;
@@ -679,6 +948,7 @@ async function callVertexAI(
       method: 'POST',
       headers,
       body: JSON.stringify(body),
+      signal,
     });
 
     if (!response.ok) {
@@ -686,53 +956,25 @@ async function callVertexAI(
       return errorResponse(`Vertex AI error: ${errorText}`, response.status, corsHeaders);
     }
 
-    const geminiResponse = await response.json() as {
-      candidates?: { content: { parts: { text: string }[] } }[];
-      usageMetadata?: { promptTokenCount: number; candidatesTokenCount: number; totalTokenCount: number };
-    };
+    const geminiResponse = await response.json() as GeminiResponse;
 
     // Convert to OpenAI format
-    const content = geminiResponse.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    const openaiResponse = {
-      id: `chatcmpl-${Date.now()}`,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model,
-      choices: [{
-        index: 0,
-        message: { role: 'assistant', content },
-        finish_reason: 'stop',
-      }],
-      usage: geminiResponse.usageMetadata ? {
-        prompt_tokens: geminiResponse.usageMetadata.promptTokenCount,
-        completion_tokens: geminiResponse.usageMetadata.candidatesTokenCount,
-        total_tokens: geminiResponse.usageMetadata.totalTokenCount,
-      } : undefined,
-    };
-
-    return jsonResponse(openaiResponse, corsHeaders);
+    return jsonResponse(fromGeminiResponse(geminiResponse, model), corsHeaders);
   } catch (err) {
     const msg = err instanceof Error ? err.message : 'Vertex AI call failed';
-    return errorResponse(`Vertex AI error: ${msg}`, 500, corsHeaders);
+    return errorResponse(`Vertex AI error: ${msg}`, err instanceof AIGatewayError ? err.status : 500, corsHeaders);
   }
 }
 
 /** Call Gemini API directly (fallback when no Service Account) */
 async function callGeminiAPI(
   model: string,
-  messages: Array<{ role: string; content: string | unknown[] }>,
+  request: ChatCompletionRequest,
   apiKey: string,
-  corsHeaders: HeadersInit
+  corsHeaders: HeadersInit,
+  signal?: AbortSignal
 ): Promise<Response> {
-  const geminiMessages = toGeminiMessages(messages);
-  const systemMsg = messages.find(m => m.role === 'system');
-  
-  const body: Record<string, unknown> = { contents: geminiMessages };
-  if (systemMsg) {
-    body.systemInstruction = { 
-      parts: [{ text: typeof systemMsg.content === 'string' ? systemMsg.content : JSON.stringify(systemMsg.content) }] 
-    };
-  }
+  const body = buildGeminiBody(request, model);
 
   // Use aiplatform API for better model support (including Gemini 3)
   const url = `https://aiplatform.googleapis.com/v1/publishers/google/models/${model}:generateContent?key=${apiKey}`;
@@ -741,6 +983,7 @@ async function callGeminiAPI(
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
+    signal,
   });
 
   if (!response.ok) {
@@ -748,52 +991,23 @@ async function callGeminiAPI(
     return errorResponse(`Gemini API error: ${errorText}`, response.status, corsHeaders);
   }
 
-  const geminiResponse = await response.json() as {
-    candidates?: { content: { parts: { text: string }[] } }[];
-    usageMetadata?: { promptTokenCount: number; candidatesTokenCount: number; totalTokenCount: number };
-  };
-
-  const content = geminiResponse.candidates?.[0]?.content?.parts?.[0]?.text || '';
-  const openaiResponse = {
-    id: `chatcmpl-${Date.now()}`,
-    object: 'chat.completion',
-    created: Math.floor(Date.now() / 1000),
-    model,
-    choices: [{
-      index: 0,
-      message: { role: 'assistant', content },
-      finish_reason: 'stop',
-    }],
-    usage: geminiResponse.usageMetadata ? {
-      prompt_tokens: geminiResponse.usageMetadata.promptTokenCount,
-      completion_tokens: geminiResponse.usageMetadata.candidatesTokenCount,
-      total_tokens: geminiResponse.usageMetadata.totalTokenCount,
-    } : undefined,
-  };
-
-  return jsonResponse(openaiResponse, corsHeaders);
+  const geminiResponse = await response.json() as GeminiResponse;
+  return jsonResponse(fromGeminiResponse(geminiResponse, model), corsHeaders);
 }
 
 /** Call Vertex AI with streaming (SSE format) */
 async function callVertexAIStreaming(
   model: string,
-  messages: Array<{ role: string; content: string | unknown[] }>,
+  request: ChatCompletionRequest,
   projectId: string,
   region: string,
   serviceAccountJson: string,
   corsHeaders: HeadersInit,
-  vertexApiKey?: string
+  vertexApiKey?: string,
+  signal?: AbortSignal
 ): Promise<Response> {
   try {
-    const geminiMessages = toGeminiMessages(messages);
-    const systemMsg = messages.find(m => m.role === 'system');
-    
-    const body: Record<string, unknown> = { contents: geminiMessages };
-    if (systemMsg) {
-      body.systemInstruction = { 
-        parts: [{ text: typeof systemMsg.content === 'string' ? systemMsg.content : JSON.stringify(systemMsg.content) }] 
-      };
-    }
+    const body = buildGeminiBody(request, model);
 
     let url: string;
     let headers: Record<string, string>;
@@ -814,6 +1028,7 @@ async function callVertexAIStreaming(
       method: 'POST',
       headers,
       body: JSON.stringify(body),
+      signal,
     });
 
     if (!response.ok) {
@@ -826,103 +1041,22 @@ async function callVertexAIStreaming(
     }
 
     // Transform Gemini SSE to OpenAI SSE format with buffer for cross-packet handling
-    let buffer = '';
-    const transformer = new TransformStream({
-      transform: (chunk, controller) => {
-        const text = new TextDecoder().decode(chunk);
-        buffer += text;
-        
-        // Process complete lines only
-        const lines = buffer.split('\n');
-        // Keep the last incomplete line in buffer
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const jsonStr = line.slice(6).trim();
-            if (!jsonStr) continue;
-            
-            try {
-              const data = JSON.parse(jsonStr) as {
-                candidates?: { content: { parts: { text: string }[] } }[];
-              };
-              const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-              
-              if (content) {
-                const openaiChunk = {
-                  id: `chatcmpl-${Date.now()}`,
-                  object: 'chat.completion.chunk',
-                  created: Math.floor(Date.now() / 1000),
-                  model,
-                  choices: [{
-                    index: 0,
-                    delta: { content },
-                    finish_reason: null,
-                  }],
-                };
-                controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openaiChunk)}\n\n`));
-              }
-            } catch {
-              // Skip malformed data - could be partial JSON
-            }
-          }
-        }
-      },
-      flush: (controller) => {
-        // Process any remaining buffer content
-        if (buffer.trim() && buffer.startsWith('data: ')) {
-          const jsonStr = buffer.slice(6).trim();
-          try {
-            const data = JSON.parse(jsonStr) as {
-              candidates?: { content: { parts: { text: string }[] } }[];
-            };
-            const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-            if (content) {
-              const openaiChunk = {
-                id: `chatcmpl-${Date.now()}`,
-                object: 'chat.completion.chunk',
-                created: Math.floor(Date.now() / 1000),
-                model,
-                choices: [{
-                  index: 0,
-                  delta: { content },
-                  finish_reason: null,
-                }],
-              };
-              controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openaiChunk)}\n\n`));
-            }
-          } catch {
-            // Ignore
-          }
-        }
-        // Send [DONE] signal
-        controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-      },
-    });
-
-    return streamResponse(response.body.pipeThrough(transformer), corsHeaders);
+    return streamResponse(transformGeminiStream(response.body, model, request.stream_options?.include_usage === true), corsHeaders);
   } catch (err) {
     const msg = err instanceof Error ? err.message : 'Vertex AI streaming failed';
-    return errorResponse(`Vertex AI streaming error: ${msg}`, 500, corsHeaders);
+    return errorResponse(`Vertex AI streaming error: ${msg}`, err instanceof AIGatewayError ? err.status : 500, corsHeaders);
   }
 }
 
 /** Call Gemini API with streaming (SSE format) */
 async function callGeminiAPIStreaming(
   model: string,
-  messages: Array<{ role: string; content: string | unknown[] }>,
+  request: ChatCompletionRequest,
   apiKey: string,
-  corsHeaders: HeadersInit
+  corsHeaders: HeadersInit,
+  signal?: AbortSignal
 ): Promise<Response> {
-  const geminiMessages = toGeminiMessages(messages);
-  const systemMsg = messages.find(m => m.role === 'system');
-  
-  const body: Record<string, unknown> = { contents: geminiMessages };
-  if (systemMsg) {
-    body.systemInstruction = { 
-      parts: [{ text: typeof systemMsg.content === 'string' ? systemMsg.content : JSON.stringify(systemMsg.content) }] 
-    };
-  }
+  const body = buildGeminiBody(request, model);
 
   const url = `https://aiplatform.googleapis.com/v1/publishers/google/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`;
   
@@ -930,6 +1064,7 @@ async function callGeminiAPIStreaming(
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
+    signal,
   });
 
   if (!response.ok) {
@@ -942,119 +1077,35 @@ async function callGeminiAPIStreaming(
   }
 
   // Transform Gemini SSE to OpenAI SSE format with buffer for cross-packet handling
-  let buffer = '';
-  const transformer = new TransformStream({
-    transform: (chunk, controller) => {
-      const text = new TextDecoder().decode(chunk);
-      buffer += text;
-      
-      // Process complete lines only
-      const lines = buffer.split('\n');
-      // Keep the last incomplete line in buffer
-      buffer = lines.pop() || '';
-      
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const jsonStr = line.slice(6).trim();
-          if (!jsonStr) continue;
-          
-          try {
-            const data = JSON.parse(jsonStr) as {
-              candidates?: { content: { parts: { text: string }[] } }[];
-            };
-            const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-            
-            if (content) {
-              const openaiChunk = {
-                id: `chatcmpl-${Date.now()}`,
-                object: 'chat.completion.chunk',
-                created: Math.floor(Date.now() / 1000),
-                model,
-                choices: [{
-                  index: 0,
-                  delta: { content },
-                  finish_reason: null,
-                }],
-              };
-              controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openaiChunk)}\n\n`));
-            }
-          } catch {
-            // Skip malformed data - could be partial JSON
-          }
-        }
-      }
-    },
-    flush: (controller) => {
-      // Process any remaining buffer content
-      if (buffer.trim() && buffer.startsWith('data: ')) {
-        const jsonStr = buffer.slice(6).trim();
-        try {
-          const data = JSON.parse(jsonStr) as {
-            candidates?: { content: { parts: { text: string }[] } }[];
-          };
-          const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-          if (content) {
-            const openaiChunk = {
-              id: `chatcmpl-${Date.now()}`,
-              object: 'chat.completion.chunk',
-              created: Math.floor(Date.now() / 1000),
-              model,
-              choices: [{
-                index: 0,
-                delta: { content },
-                finish_reason: null,
-              }],
-            };
-            controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(openaiChunk)}\n\n`));
-          }
-        } catch {
-          // Ignore
-        }
-      }
-      controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-    },
-  });
-
-  return streamResponse(response.body.pipeThrough(transformer), corsHeaders);
+  return streamResponse(transformGeminiStream(response.body, model, request.stream_options?.include_usage === true), corsHeaders);
 }
 
 /** Call Anthropic on Vertex AI (Claude models via GCP) */
 async function callVertexAnthropic(
   model: string,
-  messages: Array<{ role: string; content: string | unknown[] }>,
+  request: ChatCompletionRequest,
   projectId: string,
   region: string,
   serviceAccountJson: string,
   corsHeaders: HeadersInit,
-  maxTokens?: number
+  signal?: AbortSignal
 ): Promise<Response> {
   try {
     // Get OAuth2 access token
     const accessToken = await getGoogleAccessToken(serviceAccountJson);
     
-    // Extract system message if present
-    const systemMsg = messages.find(m => m.role === 'system');
-    const chatMessages = messages.filter(m => m.role !== 'system');
-    
-    // Convert to Anthropic Messages format
-    const anthropicMessages = chatMessages.map(m => ({
-      role: m.role === 'user' ? 'user' : 'assistant',
-      content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content)
-    }));
-    
+    // Claude 2 / Instant are text-only
+    assertVisionSupport(request.messages, model, claudeSupportsVision(model));
+
     // Build request body (Anthropic Messages API format)
-    const body: Record<string, unknown> = {
+    const body = {
       anthropic_version: 'vertex-2023-10-16',
-      max_tokens: maxTokens || 8192,
-      messages: anthropicMessages,
+      ...toAnthropicRequest(request, {
+        parseImage: url => parseImageUrl(url, ANTHROPIC_IMAGE_LIMITS),
+        defaultMaxTokens: 8192,
+      }),
     };
-    
-    if (systemMsg) {
-      body.system = typeof systemMsg.content === 'string' 
-        ? systemMsg.content 
-        : JSON.stringify(systemMsg.content);
-    }
-    
+
     // Vertex AI Anthropic endpoint
     // For 'global' region: https://aiplatform.googleapis.com/v1/projects/{PROJECT}/locations/global/publishers/anthropic/models/{MODEL}:rawPredict
     // For specific regions: https://{REGION}-aiplatform.googleapis.com/v1/projects/{PROJECT}/locations/{REGION}/publishers/anthropic/models/{MODEL}:rawPredict
@@ -1069,6 +1120,7 @@ async function callVertexAnthropic(
         'Authorization': `Bearer ${accessToken}`,
       },
       body: JSON.stringify(body),
+      signal,
     });
 
     if (!response.ok) {
@@ -1076,288 +1128,1393 @@ async function callVertexAnthropic(
       return errorResponse(`Vertex Anthropic error: ${errorText}`, response.status, corsHeaders);
     }
 
-    const anthropicResponse = await response.json() as {
-      content?: { type: string; text: string }[];
-      usage?: { input_tokens: number; output_tokens: number };
-      stop_reason?: string;
-    };
-
-    // Convert to OpenAI format
-    const content = anthropicResponse.content?.[0]?.text || '';
-    const openaiResponse = {
-      id: `chatcmpl-${Date.now()}`,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model,
-      choices: [{
-        index: 0,
-        message: { role: 'assistant', content },
-        finish_reason: anthropicResponse.stop_reason === 'end_turn' ? 'stop' : 'stop',
-      }],
-      usage: anthropicResponse.usage ? {
-        prompt_tokens: anthropicResponse.usage.input_tokens,
-        completion_tokens: anthropicResponse.usage.output_tokens,
-        total_tokens: (anthropicResponse.usage.input_tokens || 0) + (anthropicResponse.usage.output_tokens || 0),
-      } : undefined,
-    };
-
-    return jsonResponse(openaiResponse, corsHeaders);
+    // Convert to OpenAI format, reporting the model as requested (Vertex ids carry an @version)
+    const anthropicResponse = await response.json() as AnthropicResponse;
+    return jsonResponse({ ...fromAnthropicResponse(anthropicResponse, model), model }, corsHeaders);
   } catch (err) {
     const msg = err instanceof Error ? err.message : 'Vertex Anthropic call failed';
-    return errorResponse(`Vertex Anthropic error: ${msg}`, 500, corsHeaders);
+    return errorResponse(`Vertex Anthropic error: ${msg}`, err instanceof AIGatewayError ? err.status : 500, corsHeaders);
   }
 }
 
+// ============================================================================
+// Gateway Configuration
+// ============================================================================
+
+/** Loaded config per environment (parsed and validated once per isolate) */
+const gatewayConfigs = new WeakMap<Env, GatewayConfig>();
+
 /**
- * Create provider config for a specific provider type (used for prefix routing)
+ * The gateway config from GATEWAY_CONFIG, or derived from the flat environment variables.
+ * Invalid configs are not cached, so a fixed secret or variable is picked up on the next request.
+ * @throws {AIGatewayError} CONFIG_ERROR listing every validation problem
  */
-function createProviderConfigForType(providerType: string, env: Env): AnyProviderConfig | null {
-  switch (providerType) {
-    case 'vertex':
-      if (!env.GCP_PROJECT_ID && !env.GEMINI_API_KEY) return null;
-      return {
-        type: 'vertex',
-        projectId: env.GCP_PROJECT_ID || '',
-        region: env.GCP_REGION || 'us-central1',
-        serviceAccountJson: env.GCP_SERVICE_ACCOUNT_JSON,
-        geminiApiKey: env.GEMINI_API_KEY,
-        defaultModel: env.VERTEX_DEFAULT_MODEL || 'gemini-2.0-flash',
-      };
-    case 'azure-foundry':
-      if (!env.AZURE_FOUNDRY_ENDPOINT || !env.AZURE_FOUNDRY_API_KEY) return null;
-      return {
-        type: 'azure-foundry',
-        endpoint: env.AZURE_FOUNDRY_ENDPOINT,
-        apiKey: env.AZURE_FOUNDRY_API_KEY,
-        model: env.AZURE_FOUNDRY_MODEL || 'gpt-4o',
-      };
-    case 'openai':
-      if (!env.OPENAI_API_KEY) return null;
-      return {
-        type: 'openai',
-        apiKey: env.OPENAI_API_KEY,
-        baseUrl: env.OPENAI_BASE_URL,
-        organization: env.OPENAI_ORGANIZATION,
-      };
-    case 'cloudflare':
-      if (!env.CF_ACCOUNT_ID || !env.CF_API_TOKEN) return null;
-      return {
-        type: 'cloudflare',
-        accountId: env.CF_ACCOUNT_ID,
-        apiToken: env.CF_API_TOKEN,
-        model: env.CF_MODEL,
-      };
-    default:
-      return null;
+function getGatewayConfig(env: Env): GatewayConfig {
+  let config = gatewayConfigs.get(env);
+  if (!config) {
+    const vars = env as unknown as Record<string, unknown>;
+    try {
+      config = env.GATEWAY_CONFIG ? parseGatewayConfig(env.GATEWAY_CONFIG, vars) : configFromEnv(vars);
+    } catch (err) {
+      if (err instanceof AIGatewayError) console.error(err.message);
+      throw err;
+    }
+    gatewayConfigs.set(env, config);
   }
+  return config;
+}
+
+// ============================================================================
+// Chat Routing & Fallback
+// ============================================================================
+
+/** A resolved chat backend: the provider plus the model name to send it */
+interface ChatRoute {
+  provider: AIProvider;
+  /** Model without routing prefix (undefined = provider default) */
+  model?: string;
 }
 
 /**
- * Handle chat completion request
+ * Map HTTP status to error code
  */
-async function handleChat(
-  request: Request,
-  env: Env,
-  corsHeaders: HeadersInit
-): Promise<Response> {
-  const t0 = Date.now();
-  const { client, env: reqEnv } = getClientEnv(request);
-  const endpoint = getEndpoint(new URL(request.url).pathname);
-  const requireClientId = (env.REQUIRE_CLIENT_ID || '').toLowerCase() === 'true';
-  if (requireClientId && client === 'unknown') {
-    return errorResponse('Missing x-client-id', 400, corsHeaders);
-  }
-  // Validate provider configuration
-  if (!env.AI_PROVIDER) {
-    return errorResponse('AI_PROVIDER environment variable is required', 500, corsHeaders);
-  }
+function statusToErrorCode(status: number): AIGatewayErrorCode {
+  if (status === 401 || status === 403) return AIGatewayErrorCode.AUTHENTICATION_ERROR;
+  if (status === 429) return AIGatewayErrorCode.RATE_LIMIT_ERROR;
+  if (status === 400) return AIGatewayErrorCode.INVALID_REQUEST;
+  if (status >= 500) return AIGatewayErrorCode.PROVIDER_ERROR;
+  return AIGatewayErrorCode.UNKNOWN_ERROR;
+}
 
-  // Parse and validate request body
-  let body: unknown;
-  try {
-    body = await request.json();
-  } catch {
-    return errorResponse('Invalid JSON body', 400, corsHeaders);
-  }
+/**
+ * Combine the request timeout and the caller's signal into one AbortSignal
+ */
+function createAbortScope(timeout: number | undefined, signal: AbortSignal | undefined) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer: ReturnType<typeof setTimeout> | undefined = timeout
+    ? setTimeout(() => { timedOut = true; controller.abort(); }, timeout)
+    : undefined;
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
-  const requestedModel = safeParseChatRequestModel(body);
+  return {
+    signal: controller.signal,
+    /** Stop the timeout (the caller's signal stays linked until dispose) */
+    clear: () => { if (timer !== undefined) clearTimeout(timer); },
+    /** Unlink the caller's signal */
+    dispose: () => signal?.removeEventListener('abort', onAbort),
+    /** NETWORK_ERROR describing the abort, flagged when it was a timeout */
+    error: (name: string) => new AIGatewayError(
+      timedOut ? `${name} request timed out after ${timeout}ms` : `${name} request aborted`,
+      { status: timedOut ? 504 : 499, code: AIGatewayErrorCode.NETWORK_ERROR, provider: name as ProviderType, isTimeout: timedOut }
+    ),
+  };
+}
 
-  if (!validateChatRequest(body)) {
-    return errorResponse('Invalid request: messages array is required', 400, corsHeaders);
-  }
+/**
+ * Adapt a worker-only route that answers with a Response (Gemini direct, Anthropic on Vertex)
+ * to the AIProvider interface so it can take part in fallback chains
+ */
+function responseRouteProvider(
+  name: string,
+  supportsStreaming: boolean,
+  call: (request: ChatCompletionRequest, signal: AbortSignal) => Promise<Response>
+): AIProvider {
+  const unwrap = async (response: Response): Promise<Response> => {
+    if (response.ok) return response;
+    const text = await response.text();
+    let message = text;
+    try {
+      message = (JSON.parse(text) as { error?: string }).error || text;
+    } catch {
+      // Not a JSON error body
+    }
+    throw new AIGatewayError(message, {
+      status: response.status,
+      code: statusToErrorCode(response.status),
+      provider: name as ProviderType,
+      raw: text,
+    });
+  };
 
-  // Check for model prefix routing (e.g., "gemini/gemini-2.0-flash" or "azure/gpt-4o")
-  const chatBody = body as ChatCompletionRequest;
-  const { provider: prefixProvider, model: actualModel } = parseModelPrefix(chatBody.model);
-  
-  // Handle Gemini/Vertex direct calls
-  if (prefixProvider === 'gemini-direct') {
-    const isStreaming = chatBody.stream === true;
-    
-    // Prefer Vertex AI (uses GCP credits) with API Key or Service Account
-    if (env.GCP_PROJECT_ID && (env.VERTEX_API_KEY || env.GCP_SERVICE_ACCOUNT_JSON)) {
-      if (isStreaming) {
-        return callVertexAIStreaming(
-          actualModel, 
-          chatBody.messages, 
-          env.GCP_PROJECT_ID, 
-          env.GCP_REGION || 'us-central1',
-          env.GCP_SERVICE_ACCOUNT_JSON || '', 
-          corsHeaders,
-          env.VERTEX_API_KEY
-        );
+  return {
+    name,
+    supportsStreaming,
+    async chat(request: ChatCompletionRequest, options: ChatOptions = {}) {
+      const scope = createAbortScope(request.timeout, options.signal);
+      try {
+        const response = await unwrap(await call({ ...request, stream: false }, scope.signal));
+        return await response.json() as ChatCompletionResponse;
+      } catch (err) {
+        if (scope.signal.aborted) throw scope.error(name);
+        throw err;
+      } finally {
+        scope.clear();
+        scope.dispose();
       }
-      return callVertexAI(
-        actualModel, 
-        chatBody.messages, 
-        env.GCP_PROJECT_ID, 
-        env.GCP_REGION || 'us-central1',
-        env.GCP_SERVICE_ACCOUNT_JSON || '', 
-        corsHeaders,
-        env.VERTEX_API_KEY
-      );
-    }
-    // Fallback to Gemini API
-    if (env.GEMINI_API_KEY) {
-      if (isStreaming) {
-        return callGeminiAPIStreaming(actualModel, chatBody.messages, env.GEMINI_API_KEY, corsHeaders);
+    },
+    async chatStream(request: ChatCompletionRequest, options: ChatOptions = {}) {
+      // The timeout only bounds the wait for the stream to start
+      const scope = createAbortScope(request.timeout, options.signal);
+      try {
+        const response = await unwrap(await call({ ...request, stream: true }, scope.signal));
+        if (!response.body) {
+          throw new AIGatewayError('No response body for streaming', { status: 500, code: AIGatewayErrorCode.PROVIDER_ERROR });
+        }
+        return onStreamEnd(response.body, scope.dispose);
+      } catch (err) {
+        scope.dispose();
+        if (scope.signal.aborted) throw scope.error(name);
+        throw err;
+      } finally {
+        scope.clear();
       }
-      return callGeminiAPI(actualModel, chatBody.messages, env.GEMINI_API_KEY, corsHeaders);
-    }
-    return errorResponse('GCP_PROJECT_ID + (VERTEX_API_KEY or GCP_SERVICE_ACCOUNT_JSON) required for gemini/ prefix', 400, corsHeaders);
-  }
-  
-  // Handle Anthropic on Vertex AI (Claude models via GCP)
-  if (prefixProvider === 'vertex-anthropic') {
-    if (!env.GCP_PROJECT_ID || !env.GCP_SERVICE_ACCOUNT_JSON) {
-      return errorResponse('GCP_PROJECT_ID + GCP_SERVICE_ACCOUNT_JSON required for vertex-claude/ or anthropic/ prefix', 400, corsHeaders);
+    },
+  };
+}
+
+/**
+ * Resolve a (possibly prefixed) model name to a provider
+ * @throws {AIGatewayError} CONFIG_ERROR when the backend is not configured
+ */
+function resolveChatRoute(model: string | undefined, env: Env, pooled = false): ChatRoute {
+  const config = getGatewayConfig(env);
+  if (model) model = resolveModelAlias(model, config.aliases)?.model ?? model;
+
+  // Logical models with several deployments
+  const pool = model && !pooled ? config.deployments?.[model] : undefined;
+  if (pool) return resolvePoolRoute(model!, pool, env);
+
+  const { provider: prefixProvider, model: actualModel } = parseModelPrefix(model, config);
+  const providerName = prefixProvider ?? config.default_provider;
+  let entry = providerName ? config.providers[providerName] : undefined;
+  if (!entry) {
+    throw new AIGatewayError(`Default provider '${providerName ?? ''}' is not configured`, {
+      status: 500,
+      code: AIGatewayErrorCode.CONFIG_ERROR,
+    });
+  }
+
+  // Named custom backends report their config name in errors and metrics
+  if (entry.type === 'custom' && !entry.name) entry = { ...entry, name: providerName };
+  // Inside a pool the balancer fails over to the next deployment instead of retrying this one
+  if (pooled && entry.type !== 'gemini' && entry.type !== 'vertex-anthropic') {
+    entry = { ...entry, retry: { ...entry.retry, maxAttempts: 1 } };
+  }
+
+  return createChatRoute(resolveSecrets(entry, env as unknown as Record<string, unknown>), prefixProvider ? actualModel : model);
+}
+
+/** Provider types implemented by the worker itself rather than the library registry */
+const WORKER_ROUTE_TYPES = [
+  {
+    type: 'gemini',
+    description: 'Gemini via Vertex AI (API key or service account), falling back to the Gemini API',
+    capabilities: { streaming: true, tools: true, vision: true },
+  },
+  {
+    type: 'vertex-anthropic',
+    description: 'Claude on Vertex AI',
+    capabilities: { streaming: false, tools: true, vision: true },
+  },
+];
+
+/**
+ * Build the provider for a configured entry. Gemini and Claude on Vertex use the worker's
+ * direct implementations; the other types come from the library.
+ */
+function createChatRoute(entry: ProviderEntry, model: string | undefined): ChatRoute {
+  // Handle Gemini/Vertex direct calls
+  if (entry.type === 'gemini') {
+    const actualModel = model || 'gemini-2.0-flash';
+    const region = entry.region || 'us-central1';
+    // Prefer Vertex AI (uses GCP credits) with API Key or Service Account
+    if (entry.projectId && (entry.vertexApiKey || entry.serviceAccountJson)) {
+      const projectId = entry.projectId;
+      const serviceAccountJson = entry.serviceAccountJson || '';
+      return {
+        model: actualModel,
+        provider: responseRouteProvider('vertex', true, (req, signal) => req.stream
+          ? callVertexAIStreaming(actualModel, req, projectId, region, serviceAccountJson, {}, entry.vertexApiKey, signal)
+          : callVertexAI(actualModel, req, projectId, region, serviceAccountJson, {}, entry.vertexApiKey, signal)),
+      };
     }
-    // Anthropic on Vertex - use 'global' region as per user's working code
-    return callVertexAnthropic(
-      actualModel,
-      chatBody.messages,
-      env.GCP_PROJECT_ID,
-      'global', // User's working code uses region="global"
-      env.GCP_SERVICE_ACCOUNT_JSON,
-      corsHeaders,
-      chatBody.max_tokens
-    );
+    // Fallback to Gemini API
+    if (entry.apiKey) {
+      const apiKey = entry.apiKey;
+      return {
+        model: actualModel,
+        provider: responseRouteProvider('gemini', true, (req, signal) => req.stream
+          ? callGeminiAPIStreaming(actualModel, req, apiKey, {}, signal)
+          : callGeminiAPI(actualModel, req, apiKey, {}, signal)),
+      };
+    }
+    throw new AIGatewayError('Gemini requires apiKey, or projectId with vertexApiKey or serviceAccountJson', {
+      status: 400,
+      code: AIGatewayErrorCode.CONFIG_ERROR,
+    });
   }
-  
-  let config: AnyProviderConfig;
-  
-  try {
-    if (prefixProvider) {
-      // Use prefix-specified provider
-      const prefixConfig = createProviderConfigForType(prefixProvider, env);
-      if (!prefixConfig) {
-        return errorResponse(`Provider '${prefixProvider}' is not configured`, 400, corsHeaders);
+
+  // Handle Anthropic on Vertex AI (Claude models via GCP)
+  if (entry.type === 'vertex-anthropic') {
+    const actualModel = model || '';
+    return {
+      model: actualModel,
+      provider: responseRouteProvider('vertex-anthropic', false, (req, signal) =>
+        callVertexAnthropic(actualModel, req, entry.projectId, entry.region || 'global', entry.serviceAccountJson, {}, signal)),
+    };
+  }
+
+  return { provider: createProvider(entry), model };
+}
+
+/** Per-isolate balancers, so health and in-flight counts persist across requests */
+const loadBalancers = new Map<string, { config: string; provider: LoadBalancedProvider }>();
+
+/**
+ * Route a logical model to its load-balanced pool. Deployments given as a model are resolved
+ * with the gateway's provider settings; explicit provider configs get their own provider.
+ */
+function resolvePoolRoute(name: string, pool: DeploymentPool, env: Env): ChatRoute {
+  const config = JSON.stringify(pool);
+  let entry = loadBalancers.get(name);
+  if (!entry || entry.config !== config) {
+    const targets = pool.deployments.map((deployment, i) => {
+      const route = deployment.provider
+        ? {
+          provider: createProvider({
+            ...resolveSecrets(deployment.provider, env as unknown as Record<string, unknown>),
+            retry: { ...deployment.provider.retry, maxAttempts: 1 },
+          }),
+          model: deployment.model,
+        }
+        : resolveChatRoute(deployment.model, env, true);
+      return {
+        provider: route.provider,
+        model: route.model,
+        weight: deployment.weight,
+        name: deployment.name ?? deployment.model ?? `${route.provider.name}#${i}`,
+      };
+    });
+    const provider = new LoadBalancedProvider(targets, {
+      strategy: pool.strategy,
+      maxFailures: pool.max_failures,
+      cooldownMs: pool.cooldown_ms,
+      onEject: ({ name: backend, error }) => console.warn(`Ejecting deployment '${backend}' of ${name} after ${error?.code}: ${error?.message}`),
+      onRecover: ({ name: backend }) => console.warn(`Deployment '${backend}' of ${name} recovered`),
+    });
+    entry = { config, provider };
+    loadBalancers.set(name, entry);
+  }
+
+  return { provider: entry.provider, model: parseModelPrefix(name, getGatewayConfig(env)).model };
+}
+
+/**
+ * Build the ordered list of models to try: the requested model followed by the
+ * fallback chain entries after it (or the whole chain if it is not part of it)
+ */
+function getFallbackModels(requestedModel: string | undefined, env: Env): Array<string | undefined> {
+  const chain = getGatewayConfig(env).fallback_chain ?? [];
+  if (chain.length === 0) return [requestedModel];
+
+  const position = requestedModel ? chain.indexOf(requestedModel) : -1;
+  const rest = position >= 0 ? chain.slice(position + 1) : chain;
+  return [requestedModel, ...rest.filter(m => m !== requestedModel)];
+}
+
+/**
+ * Route a chat request through provider selection and fallback, and record its UsageEvent.
+ * Returns an OpenAI SSE stream when streaming was requested; a route that cannot stream
+ * answers with a completion that is replayed as SSE.
+ */
+async function executeChat(
+  request: Request,
+  env: Env,
+  chatBody: ChatCompletionRequest,
+  usageContext: UsageContext,
+  t0: number,
+  ctx: RequestContext
+): Promise<ChatCompletionResponse | ReadableStream> {
+  const { client, env: reqEnv, endpoint, requestedModel } = usageContext;
+
+  // Model aliases fill request defaults here; the fallback chain is looked up by the alias name
+  const { aliases } = getGatewayConfig(env);
+  const alias = applyModelAlias(chatBody, aliases) ?? undefined;
+
+  // Resolve model prefix routing (e.g., "gemini/gemini-2.0-flash" or "azure/gpt-4o") for the
+  // requested model and any configured fallbacks
+  const routes: ChatRoute[] = [];
+  for (const [i, model] of getFallbackModels(alias ?? chatBody.model, env).entries()) {
+    // Virtual key policy applies to every model in the chain (aliases by the model they resolve to)
+    const policyModel = (model && resolveModelAlias(model, aliases)?.model) || model || getDefaultModel(env) || '';
+    if (i === 0) {
+      assertModelAllowed(ctx.key, policyModel);
+    } else if (!isModelAllowed(ctx.key, policyModel)) {
+      console.warn(`Skipping fallback model '${model}': not allowed for key ${ctx.key!.id}`);
+      continue;
+    }
+
+    try {
+      routes.push(resolveChatRoute(model, env));
+    } catch (routeError) {
+      // An unconfigured fallback is skipped; the primary route must resolve
+      if (i > 0) {
+        const msg = routeError instanceof Error ? routeError.message : String(routeError);
+        console.warn(`Skipping fallback model '${model}': ${msg}`);
+        continue;
       }
-      config = prefixConfig;
-      // Update model in request to use actual model name (without prefix)
-      chatBody.model = actualModel;
-    } else {
-      // Use default provider
-      config = createProviderConfig(env);
+      if (routeError instanceof AIGatewayError && routeError.status < 500) throw routeError;
+      const msg = routeError instanceof Error ? routeError.message : 'Config error';
+      throw new AIGatewayError(`Provider config error: ${msg}`, { status: 500, code: AIGatewayErrorCode.CONFIG_ERROR });
     }
-  } catch (configError) {
-    const msg = configError instanceof Error ? configError.message : 'Config error';
-    return errorResponse(`Provider config error: ${msg}`, 500, corsHeaders);
   }
-  
-  let provider;
-  try {
-    provider = createProvider(config);
-  } catch (providerError) {
-    const msg = providerError instanceof Error ? providerError.message : 'Provider creation error';
-    return errorResponse(`Provider creation error: ${msg}`, 500, corsHeaders);
+
+  let servedIndex = 0;
+  let provider: AIProvider;
+  if (routes.length > 1) {
+    provider = new FallbackProvider(
+      routes.map(r => ({ provider: r.provider, model: r.model })),
+      {
+        onFallback: ({ from, to, error }) => console.warn(`Fallback ${from} -> ${to} after ${error.code}: ${error.message}`),
+        onSuccess: (index) => { servedIndex = index; },
+      }
+    );
+  } else {
+    provider = routes[0].provider;
+    // Update model in request to use actual model name (without prefix)
+    chatBody.model = routes[0].model;
+  }
+  // Load-balanced pools report the deployment that actually answered
+  let served: { provider: string; model?: string } | undefined;
+  const chatOptions: ChatOptions = { signal: request.signal, onServed: (backend) => { served = backend; } };
+  const servedProvider = () => served?.provider ?? routes[servedIndex].provider.name;
+  const servedModel = () => served?.model || routes[servedIndex].model || servedProvider();
+  const pricing = resolvePricing(env.MODEL_PRICING);
+
+  // Exact-match cache (non-streaming only), keyed on the primary route. Semantic matches are only
+  // looked up among requests that are identical apart from the last user message (same system
+  // prompt, history, tools and parameters).
+  const tenant = getTenant(request, ctx.key);
+  const cacheKey = ctx.cache && !chatBody.stream
+    ? await computeCacheKey('chat', tenant, routes[0].provider.name, routes[0].model ?? '', chatBody)
+    : null;
+  const semanticScope = ctx.cache?.semantic && !chatBody.stream
+    ? await computeCacheKey('chat', tenant, routes[0].provider.name, routes[0].model ?? '', {
+      ...chatBody,
+      messages: withoutLastUserMessage(chatBody.messages),
+    })
+    : null;
+  let semanticVector: number[] | null = null;
+  if (cacheKey) {
+    let cached = await readCache(env, ctx.cache!, cacheKey);
+    if (cached === null && semanticScope) {
+      ({ cached, vector: semanticVector } = await readSemanticCache(env, ctx, semanticScope, chatBody));
+    }
+    if (cached !== null) {
+      const finalModel = servedModel();
+      // Nothing was spent upstream: no tokens or cost are recorded or charged
+      ctx.waitUntil(writeUsageEvent(env, {
+        client,
+        env: reqEnv,
+        endpoint,
+        model: finalModel,
+        model_source: inferModelSource(requestedModel, finalModel, false),
+        provider: servedProvider(),
+        alias,
+        tokens_in: 0,
+        tokens_out: 0,
+        cost_usd: 0,
+        cache_hit: true,
+        latency_ms: Date.now() - t0,
+        status: 200,
+        ts: Date.now(),
+      }));
+      return JSON.parse(cached) as ChatCompletionResponse;
+    }
   }
 
-  // Handle streaming if requested and supported
-  // NOTE: streaming token usage is not available reliably; we still record request + latency.
+  // Handle streaming if requested and supported. Usage is requested upstream so the UsageEvent
+  // can be written with real tokens once the stream completes; providers that do not accept
+  // stream_options leave it out, and usage is then read from the final chunk when present.
   if (chatBody.stream && provider.supportsStreaming && provider.chatStream) {
-    const stream = await provider.chatStream(chatBody);
-    const latency_ms = Date.now() - t0;
-    const finalModel = chatBody.model || config.type; // best-effort
-    const model_source = inferModelSource(requestedModel, finalModel, false);
-    writeUsageEvent(env, {
-      client,
-      env: reqEnv,
-      endpoint,
-      model: finalModel,
-      model_source,
-      tokens_in: 0,
-      tokens_out: 0,
-      latency_ms,
-      status: 200,
-      ts: Date.now(),
+    const forwardUsage = chatBody.stream_options?.include_usage === true;
+    let stream: ReadableStream;
+    try {
+      // Client disconnects abort the upstream call (and an active stream)
+      stream = await provider.chatStream(
+        { ...chatBody, stream_options: { ...chatBody.stream_options, include_usage: true } },
+        chatOptions
+      );
+    } catch (err) {
+      const finalModel = servedModel();
+      ctx.waitUntil(writeUsageEvent(env, {
+        client,
+        env: reqEnv,
+        endpoint,
+        model: finalModel,
+        model_source: inferModelSource(requestedModel, finalModel, servedIndex > 0),
+        provider: servedProvider(),
+        alias,
+        tokens_in: 0,
+        tokens_out: 0,
+        cost_usd: 0,
+        latency_ms: Date.now() - t0,
+        status: err instanceof AIGatewayError ? err.status : 500,
+        ts: Date.now(),
+      }));
+      throw err;
+    }
+
+    const finalModel = servedModel(); // best-effort
+    const model_source = inferModelSource(requestedModel, finalModel, servedIndex > 0);
+    const provider_name = servedProvider();
+    return tapChatStream(stream, t0, forwardUsage, (usage) => {
+      const cost_usd = computeCostUsd(pricing, provider_name, finalModel, usage);
+      ctx.waitUntil(chargeUsage(ctx, env, usage.tokens_in + usage.tokens_out, cost_usd));
+      ctx.waitUntil(writeUsageEvent(env, {
+        client,
+        env: reqEnv,
+        endpoint,
+        model: finalModel,
+        model_source,
+        provider: provider_name,
+        alias,
+        tokens_in: usage.tokens_in,
+        tokens_out: usage.tokens_out,
+        cached_tokens: usage.cached_tokens,
+        cost_usd,
+        latency_ms: usage.duration_ms,
+        ttft_ms: usage.ttft_ms,
+        status: usage.status,
+        ts: Date.now(),
+      }));
     });
-    return streamResponse(stream, corsHeaders);
   }
 
   // Non-streaming response
   try {
-    const response = await provider.chat(chatBody);
+    const response = await provider.chat(chatBody, chatOptions);
     const latency_ms = Date.now() - t0;
-    const { tokens_in, tokens_out } = safeExtractChatUsage(response);
-    const finalModel = response?.model || chatBody.model || config.type;
-    const model_source = inferModelSource(requestedModel, finalModel, false);
+    const usage = safeExtractChatUsage(response);
+    const finalModel = response?.model || servedModel();
+    const model_source = inferModelSource(requestedModel, finalModel, servedIndex > 0);
+    const provider_name = servedProvider();
+    const cost_usd = computeCostUsd(pricing, provider_name, finalModel, usage);
+    ctx.waitUntil(chargeUsage(ctx, env, usage.tokens_in + usage.tokens_out, cost_usd));
+    // Only responses from the primary route are cached under its key
+    if (cacheKey && servedIndex === 0) {
+      const value = JSON.stringify(response);
+      ctx.waitUntil(writeCache(env, ctx.cache!, cacheKey, value));
+      if (semanticScope && semanticVector) ctx.waitUntil(writeSemanticCache(env, ctx, semanticScope, semanticVector, value));
+    }
 
-    writeUsageEvent(env, {
+    ctx.waitUntil(writeUsageEvent(env, {
       client,
       env: reqEnv,
       endpoint,
       model: finalModel,
       model_source,
-      tokens_in,
-      tokens_out,
+      provider: provider_name,
+      alias,
+      ...usage,
+      cost_usd,
       latency_ms,
       status: 200,
       ts: Date.now(),
-    });
+    }));
 
-    return jsonResponse(response, corsHeaders);
+    return chatBody.stream ? completionToStream(response, chatBody.stream_options?.include_usage === true) : response;
   } catch (err) {
     const latency_ms = Date.now() - t0;
-    const finalModel = chatBody.model || config.type;
-    const model_source = inferModelSource(requestedModel, finalModel, false);
+    const finalModel = servedModel();
+    const model_source = inferModelSource(requestedModel, finalModel, servedIndex > 0);
 
-    writeUsageEvent(env, {
+    ctx.waitUntil(writeUsageEvent(env, {
       client,
       env: reqEnv,
       endpoint,
       model: finalModel,
       model_source,
+      provider: servedProvider(),
+      alias,
       tokens_in: 0,
       tokens_out: 0,
+      cost_usd: 0,
       latency_ms,
-      status: 500,
+      status: err instanceof AIGatewayError ? err.status : 500,
       ts: Date.now(),
-    });
+    }));
 
     throw err;
   }
 }
 
+/**
+ * Handle chat completion request
+ */
+async function handleChat(
+  request: Request,
+  env: Env,
+  corsHeaders: HeadersInit,
+  ctx: RequestContext
+): Promise<Response> {
+  const t0 = Date.now();
+  const { client, env: reqEnv } = getClientEnv(request, ctx.key);
+  const endpoint = getEndpoint(new URL(request.url).pathname);
+  const requireClientId = (env.REQUIRE_CLIENT_ID || '').toLowerCase() === 'true';
+  if (requireClientId && client === 'unknown') {
+    return errorResponse('Missing x-client-id', 400, corsHeaders);
+  }
+  // Validate provider configuration
+  if (!getGatewayConfig(env).default_provider) {
+    return errorResponse('No default provider configured (AI_PROVIDER or default_provider in GATEWAY_CONFIG)', 500, corsHeaders);
+  }
+
+  // Parse and validate request body
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400, corsHeaders);
+  }
+
+  const requestedModel = safeParseChatRequestModel(body);
+
+  if (!validateChatRequest(body)) {
+    return errorResponse('Invalid request: messages array is required', 400, corsHeaders);
+  }
+
+  const result = await executeChat(request, env, body, { client, env: reqEnv, endpoint, requestedModel }, t0, ctx);
+  return result instanceof ReadableStream ? streamResponse(result, corsHeaders) : jsonResponse(result, corsHeaders);
+}
+
 // ============================================================================
-// Authentication
+// Anthropic Messages API
 // ============================================================================
 
 /**
- * Check if request is authenticated
+ * Create an error response in Anthropic format
  */
-function isAuthenticated(request: Request, url: URL, env: Env): boolean {
-  // No API key configured = allow all
-  if (!env.CLIENT_API_KEY) return true;
+function anthropicErrorResponse(message: string, status: number, corsHeaders: HeadersInit): Response {
+  return new Response(JSON.stringify({ type: 'error', error: { type: anthropicErrorType(status), message } }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Handle Anthropic Messages API request (/v1/messages), translated to and from a chat completion
+ */
+async function handleMessages(
+  request: Request,
+  env: Env,
+  corsHeaders: HeadersInit,
+  ctx: RequestContext
+): Promise<Response> {
+  const t0 = Date.now();
+  const { client, env: reqEnv } = getClientEnv(request, ctx.key);
+  const endpoint = getEndpoint(new URL(request.url).pathname);
+  const requireClientId = (env.REQUIRE_CLIENT_ID || '').toLowerCase() === 'true';
+  if (requireClientId && client === 'unknown') {
+    return anthropicErrorResponse('Missing x-client-id', 400, corsHeaders);
+  }
+  if (!getGatewayConfig(env).default_provider) {
+    return anthropicErrorResponse('No default provider configured (AI_PROVIDER or default_provider in GATEWAY_CONFIG)', 500, corsHeaders);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return anthropicErrorResponse('Invalid JSON body', 400, corsHeaders);
+  }
+
+  if (!validateMessagesRequest(body)) {
+    return anthropicErrorResponse('Invalid request: messages array is required', 400, corsHeaders);
+  }
+
+  try {
+    const chatBody = fromAnthropicRequest(body);
+    // Usage feeds the final message_delta event
+    if (chatBody.stream) chatBody.stream_options = { include_usage: true };
+
+    const result = await executeChat(request, env, chatBody, { client, env: reqEnv, endpoint, requestedModel: body.model }, t0, ctx);
+    if (result instanceof ReadableStream) {
+      return streamResponse(result.pipeThrough(createMessagesStreamTransformer(body.model)), corsHeaders);
+    }
+    return jsonResponse(toAnthropicMessage(result), corsHeaders);
+  } catch (err) {
+    console.error('Messages error:', err);
+    if (err instanceof AIGatewayError) {
+      return anthropicErrorResponse(err.message, err.status, corsHeaders);
+    }
+    const message = err instanceof Error ? err.message : 'Internal server error';
+    return anthropicErrorResponse(message, 500, corsHeaders);
+  }
+}
+
+// ============================================================================
+// OpenAI Responses API
+// ============================================================================
+
+/** Per-isolate fallback store when RESPONSES_KV is not bound */
+const memoryResponseStore = new MemoryResponseStore();
+
+function getResponseStore(env: Env): ResponseStore {
+  return env.RESPONSES_KV ? new KVResponseStore(env.RESPONSES_KV) : memoryResponseStore;
+}
+
+/**
+ * Handle OpenAI Responses API request (/v1/responses), translated to and from a chat completion
+ */
+async function handleResponses(
+  request: Request,
+  env: Env,
+  corsHeaders: HeadersInit,
+  ctx: RequestContext
+): Promise<Response> {
+  const t0 = Date.now();
+  const { client, env: reqEnv } = getClientEnv(request, ctx.key);
+  const endpoint = getEndpoint(new URL(request.url).pathname);
+  const requireClientId = (env.REQUIRE_CLIENT_ID || '').toLowerCase() === 'true';
+  if (requireClientId && client === 'unknown') {
+    return errorResponse('Missing x-client-id', 400, corsHeaders);
+  }
+  if (!getGatewayConfig(env).default_provider) {
+    return errorResponse('No default provider configured (AI_PROVIDER or default_provider in GATEWAY_CONFIG)', 500, corsHeaders);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400, corsHeaders);
+  }
+
+  if (!validateResponsesRequest(body)) {
+    return errorResponse('Invalid request: input is required', 400, corsHeaders);
+  }
+
+  // Restore the conversation referenced by previous_response_id; responses are only visible
+  // to the key (or client) that created them
+  const store = getResponseStore(env);
+  const owner = getTenant(request, ctx.key);
+  let history: Message[] = [];
+  if (body.previous_response_id) {
+    const previous = await store.get(owner, body.previous_response_id);
+    if (!previous) {
+      return errorResponse(`Previous response with id '${body.previous_response_id}' not found`, 400, corsHeaders);
+    }
+    history = previous.messages;
+  }
+
+  const chatBody = toChatRequest(body, history);
+  // Usage is reported in the final response.completed event
+  if (chatBody.stream) chatBody.stream_options = { include_usage: true };
+
+  const response = createResponseObject(body, body.model || '');
+  const conversation = [...history, ...inputToMessages(body.input)];
+  const save = async (result: ResponseObject) => {
+    if (!result.store) return;
+    try {
+      await store.put(owner, { id: result.id, messages: [...conversation, outputToMessage(result.output)] });
+    } catch (err) {
+      // best-effort: the response is still returned, it just can't be continued
+      console.error('Failed to store response:', err);
+    }
+  };
+
+  const result = await executeChat(request, env, chatBody, { client, env: reqEnv, endpoint, requestedModel: body.model }, t0, ctx);
+  if (result instanceof ReadableStream) {
+    return streamResponse(result.pipeThrough(createResponsesStreamTransformer(response, save)), corsHeaders);
+  }
+
+  fromChatResponse(response, result);
+  await save(response);
+  return jsonResponse(response, corsHeaders);
+}
+
+// ============================================================================
+// Model Catalog
+// ============================================================================
+
+/** Default model of the unprefixed provider (matches the provider defaults) */
+function getDefaultModel(env: Env): string | undefined {
+  return getGatewayConfig(env).default_model;
+}
+
+/**
+ * Build the catalog of routable models. Each candidate is resolved with the same routing
+ * as chat requests, so models whose provider is not configured are left out.
+ */
+function buildModelCatalog(env: Env): CatalogModel[] {
+  const catalog = new Map<string, CatalogModel>();
+
+  const add = (model: string | undefined) => {
+    if (!model || catalog.has(model)) return;
+
+    let route: ChatRoute;
+    try {
+      route = resolveChatRoute(model, env);
+    } catch {
+      return;
+    }
 
+    // Providers from the fallback chain also back this model
+    const providers = [route.provider.name];
+    for (const fallback of getFallbackModels(model, env).slice(1)) {
+      try {
+        const name = resolveChatRoute(fallback, env).provider.name;
+        if (!providers.includes(name)) providers.push(name);
+      } catch {
+        // unconfigured fallbacks are skipped at request time too
+      }
+    }
+
+    catalog.set(model, {
+      id: model,
+      object: 'model',
+      created: 0,
+      owned_by: route.provider.name,
+      prefix: parseModelPrefix(model, getGatewayConfig(env)).provider ? model.slice(0, model.indexOf('/')) : null,
+      providers,
+      capabilities: modelCapabilities(route.model || model, route.provider.supportsStreaming),
+    });
+  };
+
+  add(getDefaultModel(env));
+  for (const alias of Object.keys(getGatewayConfig(env).aliases ?? {})) add(alias);
+
+  const configuredDefaults: Partial<Record<(typeof CATALOG_PREFIXES)[number], string | undefined>> = {
+    gemini: env.VERTEX_DEFAULT_MODEL,
+    azure: env.AZURE_FOUNDRY_MODEL,
+    foundry: env.AZURE_FOUNDRY_MODEL,
+    cloudflare: env.CF_MODEL,
+  };
+  const { providers: configuredProviders, routes } = getGatewayConfig(env);
+  for (const prefix of CATALOG_PREFIXES) {
+    // The well-known anthropic/ ids are Vertex ids (name@version); the Anthropic API lists its registered models below
+    if (prefix === 'anthropic' && configuredProviders[routes.anthropic]?.type === 'anthropic') continue;
+    // Without a provider behind the prefix, its ids would go to the default provider unchanged
+    if (!configuredProviders[routes[prefix] ?? DEFAULT_ROUTES[prefix]]) continue;
+    const models = [configuredDefaults[prefix], ...KNOWN_MODELS[prefix]].filter((m): m is string => !!m);
+    for (const model of models) add(`${prefix}/${model}`);
+  }
+
+  // Custom backends and vendor presets list their configured model, registered providers their declared
+  // models, under their own name (OpenRouter ids keep their vendor: openrouter/openai/gpt-4o-mini)
+  for (const [name, entry] of Object.entries(getGatewayConfig(env).providers)) {
+    if ((entry.type === 'custom' || entry.type in PROVIDER_PRESETS) && 'model' in entry && entry.model) add(`${name}/${entry.model}`);
+    for (const model of getProviderRegistration(entry.type)?.models ?? []) add(`${name}/${model}`);
+  }
+
+  for (const model of getFallbackModels(undefined, env)) add(model);
+
+  // Embedding deployments are served unprefixed by /v1/embeddings
+  const embeddingsProvider = env.AZURE_ENDPOINT && env.AZURE_API_KEY ? 'azure'
+    : env.AZURE_FOUNDRY_ENDPOINT && env.AZURE_FOUNDRY_API_KEY ? 'azure-foundry'
+    : null;
+  if (embeddingsProvider) {
+    for (const model of EMBEDDING_MODELS) {
+      if (catalog.has(model)) continue;
+      catalog.set(model, {
+        id: model,
+        object: 'model',
+        created: 0,
+        owned_by: embeddingsProvider,
+        prefix: null,
+        providers: [embeddingsProvider],
+        capabilities: modelCapabilities(model, false),
+      });
+    }
+  }
+
+  return [...catalog.values()];
+}
+
+/**
+ * Handle model catalog requests (GET /v1/models and GET /v1/models/{id})
+ */
+function handleModels(url: URL, env: Env, corsHeaders: HeadersInit, key: VirtualKey | null): Response {
+  const catalog = buildModelCatalog(env).filter(m => isModelAllowed(key, m.id));
+  const match = url.pathname.match(/\/models\/(.+)$/);
+  if (!match) {
+    return jsonResponse({ object: 'list', data: catalog }, corsHeaders);
+  }
+
+  const id = decodeURIComponent(match[1]);
+  const model = catalog.find(m => m.id === id);
+  return model ? jsonResponse(model, corsHeaders) : errorResponse(`Model '${id}' not found`, 404, corsHeaders);
+}
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+/** Per-isolate fallback store when KEYS_KV is not bound */
+const memoryKeyStore = new MemoryKeyStore();
+
+function getKeyStore(env: Env): KeyStore {
+  return env.KEYS_KV ? new KVKeyStore(env.KEYS_KV) : memoryKeyStore;
+}
+
+/**
+ * Authenticate the request and return the virtual key presented, or null when the request
+ * is allowed without one (no auth configured, CLIENT_API_KEY or a Service Binding).
+ * Throws AUTHENTICATION_ERROR for missing, unknown, disabled or expired keys.
+ */
+async function authenticate(request: Request, url: URL, env: Env): Promise<VirtualKey | null> {
   // Service Bindings bypass authentication
   const cfWorker = request.headers.get('cf-worker');
   const isInternal = url.hostname === 'internal';
-  if (cfWorker || isInternal) return true;
+  if (cfWorker || isInternal) return null;
+
+  // Bearer token or x-api-key (Anthropic clients)
+  const presented = getPresentedKey(request);
+  if (env.CLIENT_API_KEY && presented && await timingSafeEqual(presented, env.CLIENT_API_KEY)) return null;
+
+  const key = presented ? await resolveVirtualKey(getKeyStore(env), presented) : null;
+  if (key) return key;
+
+  // No API key configured = allow all
+  if (!env.CLIENT_API_KEY && !env.KEYS_KV) return null;
+
+  throw new AIGatewayError('Unauthorized', { status: 401, code: AIGatewayErrorCode.AUTHENTICATION_ERROR });
+}
+
+/** Map a request path to the endpoint group used by key policies */
+function getKeyEndpoint(path: string): KeyEndpoint {
+  if (path.endsWith('/audio/speech')) return 'speech';
+  if (path.endsWith('/embeddings')) return 'embeddings';
+  return 'chat';
+}
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+/** Per-isolate fallback limiter when RATE_LIMITER is not bound */
+const memoryRateLimiter = new MemoryRateLimiter();
+
+function getRateLimiter(env: Env): RateLimiter {
+  return env.RATE_LIMITER ? new DurableObjectRateLimiter(env.RATE_LIMITER) : memoryRateLimiter;
+}
+
+/** Limits for a caller: the virtual key's own limits, else the worker defaults */
+function getRateLimits(env: Env, key: VirtualKey | null): RateLimits {
+  return {
+    rpm: key?.rate_limits?.rpm ?? (Number(env.RATE_LIMIT_RPM) || 0),
+    tpm: key?.rate_limits?.tpm ?? (Number(env.RATE_LIMIT_TPM) || 0),
+  };
+}
+
+/**
+ * Count the request against its client/model bucket. Returns the bucket and the
+ * x-ratelimit-* headers, or a 429 response when a limit is exhausted.
+ */
+async function applyRateLimit(
+  request: Request,
+  env: Env,
+  key: VirtualKey | null,
+  corsHeaders: HeadersInit
+): Promise<{ rateLimit: RequestContext['rateLimit']; headers: Record<string, string> } | Response> {
+  const limits = getRateLimits(env, key);
+  if (!limits.rpm && !limits.tpm) return { rateLimit: null, headers: {} };
+
+  // The model is read from a copy of the body; handlers parse the original
+  let model: string | undefined;
+  try {
+    model = safeParseChatRequestModel(await request.clone().json());
+  } catch {
+    // invalid JSON is rejected by the handler
+  }
+
+  // Buckets are per virtual key; without one the self-reported x-client-id cannot be trusted,
+  // so callers are told apart by their IP
+  const caller = key ? `key:${key.id}` : `ip:${request.headers.get('cf-connecting-ip') || 'unknown'}`;
+  const bucket = `${caller}:${model || getDefaultModel(env) || 'default'}`;
+  const limiter = getRateLimiter(env);
+
+  let result;
+  try {
+    result = await limiter.acquire(bucket, limits);
+  } catch (err) {
+    // Fail open: a limiter outage must not take down traffic
+    console.error('Rate limiter error:', err);
+    return { rateLimit: null, headers: {} };
+  }
+
+  const headers = rateLimitHeaders(result);
+  if (!result.allowed) {
+    return rateLimitErrorResponse(`Rate limit exceeded for ${bucket}`, headers, corsHeaders);
+  }
+  return { rateLimit: { bucket, limiter }, headers };
+}
+
+/** 429 response with a RATE_LIMIT_ERROR body (rate limits and budgets) */
+function rateLimitErrorResponse(message: string, headers: Record<string, string>, corsHeaders: HeadersInit): Response {
+  const error = new AIGatewayError(message, { status: 429, code: AIGatewayErrorCode.RATE_LIMIT_ERROR });
+  return new Response(JSON.stringify({ error: error.toJSON() }), {
+    status: 429,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+}
 
-  // Check Authorization header
-  const authHeader = request.headers.get('Authorization');
-  return authHeader === `Bearer ${env.CLIENT_API_KEY}`;
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/** Per-isolate fallback store when neither CACHE_KV nor the Cache API is available */
+const memoryCacheStore = new MemoryCacheStore();
+
+function getCacheStore(env: Env): CacheStore {
+  if (env.CACHE_KV) return new KVCacheStore(env.CACHE_KV);
+  return typeof caches !== 'undefined' ? new CacheApiStore(caches.default) : memoryCacheStore;
+}
+
+/** Look up a cached response body and record HIT/MISS on the request's cache options */
+async function readCache(env: Env, cache: CacheOptions, key: string): Promise<string | null> {
+  try {
+    const value = await getCacheStore(env).get(key);
+    cache.status = value === null ? 'MISS' : 'HIT';
+    return value;
+  } catch (err) {
+    console.error('Cache error:', err);
+    cache.status = 'MISS';
+    return null;
+  }
+}
+
+/** Store a response body (best-effort) */
+async function writeCache(env: Env, cache: CacheOptions, key: string, value: string): Promise<void> {
+  try {
+    await getCacheStore(env).put(key, value, cache.ttlSeconds);
+  } catch (err) {
+    console.error('Cache error:', err);
+  }
+}
+
+/** Per-isolate fallback vector store when SEMANTIC_CACHE_INDEX is not bound */
+const memoryVectorStore = new MemoryVectorStore();
+
+function getVectorStore(env: Env): VectorStore {
+  return env.SEMANTIC_CACHE_INDEX ? new VectorizeStore(env.SEMANTIC_CACHE_INDEX) : memoryVectorStore;
+}
+
+/** Embed a prompt with the embeddings backend (charged like an embeddings request); null when unavailable */
+async function embedPrompt(env: Env, ctx: RequestContext, text: string): Promise<number[] | null> {
+  const model = env.SEMANTIC_CACHE_EMBEDDING_MODEL || 'text-embedding-3-small';
+  const upstream = resolveEmbeddingsUpstream(env, model);
+  if (!upstream) {
+    console.warn('Semantic cache skipped: embeddings not configured');
+    return null;
+  }
+  const r = await fetchEmbeddings(upstream, [text]);
+  const body = await r.text();
+  if (!r.ok) throw new Error(`Embeddings provider error: ${body}`);
+  chargeEmbeddingsUsage(ctx, env, upstream.provider, model, body);
+  const vector = (JSON.parse(body) as { data?: { embedding?: number[] }[] }).data?.[0]?.embedding;
+  return Array.isArray(vector) ? vector : null;
+}
+
+/**
+ * Semantic cache lookup for the last user message, scoped per client and model. Returns the cached
+ * completion above SEMANTIC_CACHE_THRESHOLD, or the prompt's vector so a fresh completion can be stored.
+ */
+async function readSemanticCache(
+  env: Env,
+  ctx: RequestContext,
+  scope: string,
+  chatBody: ChatCompletionRequest
+): Promise<{ cached: string | null; vector: number[] | null }> {
+  const cache = ctx.cache!;
+  cache.status = 'MISS';
+  const text = lastUserMessageText(chatBody.messages);
+  if (!text) return { cached: null, vector: null };
+
+  try {
+    const vector = await embedPrompt(env, ctx, text);
+    if (!vector) return { cached: null, vector: null };
+
+    const match = await getVectorStore(env).query(vector, scope);
+    const threshold = Number(env.SEMANTIC_CACHE_THRESHOLD) || 0.95;
+    if (match && match.score >= threshold) {
+      // The vector may outlive its completion (cache TTL); that counts as a miss
+      const cached = await getCacheStore(env).get(`semantic:${match.id}`);
+      if (cached !== null) {
+        cache.status = 'HIT';
+        cache.similarity = match.score;
+        return { cached, vector };
+      }
+    }
+    return { cached: null, vector };
+  } catch (err) {
+    console.error('Semantic cache error:', err);
+    return { cached: null, vector: null };
+  }
+}
+
+/** Store a completion for later semantic lookups (best-effort) */
+async function writeSemanticCache(env: Env, ctx: RequestContext, scope: string, vector: number[], value: string): Promise<void> {
+  try {
+    const id = crypto.randomUUID();
+    await getCacheStore(env).put(`semantic:${id}`, value, ctx.cache!.ttlSeconds);
+    await getVectorStore(env).upsert(id, vector, scope);
+  } catch (err) {
+    console.error('Semantic cache error:', err);
+  }
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/** Per-isolate fallback store when BUDGET_COUNTERS is not bound */
+const memoryBudgetStore = new MemoryBudgetStore();
+
+function getBudgetStore(env: Env): BudgetStore {
+  return env.BUDGET_COUNTERS ? new DurableObjectBudgetStore(env.BUDGET_COUNTERS) : memoryBudgetStore;
+}
+
+/** Parse ENV_BUDGETS ({"prod": {"monthly_cost_usd": 500}}); invalid JSON disables env budgets */
+function getEnvBudgets(env: Env): Record<string, Budget> {
+  if (!env.ENV_BUDGETS) return {};
+  try {
+    return JSON.parse(env.ENV_BUDGETS) as Record<string, Budget>;
+  } catch {
+    console.warn('Ignoring invalid ENV_BUDGETS');
+    return {};
+  }
+}
+
+/**
+ * Budgets that apply to a request: the virtual key's own budget and its env budget. A keyed
+ * request is charged to the key's env only (x-env is ignored, so it cannot pick a budget);
+ * anonymous callers are charged to their self-reported x-env.
+ */
+function getBudgetScopes(env: Env, key: VirtualKey | null, reqEnv: string | undefined): BudgetScope[] {
+  const scopes: BudgetScope[] = [];
+  if (key?.budget) scopes.push({ scope: `key:${key.id}`, budget: key.budget });
+  const envBudget = reqEnv ? getEnvBudgets(env)[reqEnv] : undefined;
+  if (envBudget) scopes.push({ scope: `env:${reqEnv}`, budget: envBudget });
+  return scopes;
+}
+
+/**
+ * Check the request's budgets before dispatch. Returns the scopes to charge and the
+ * x-budget-* headers, or a 429 response when a hard limit is reached.
+ */
+async function applyBudgets(
+  request: Request,
+  env: Env,
+  key: VirtualKey | null,
+  corsHeaders: HeadersInit
+): Promise<{ budgets: BudgetScope[]; headers: Record<string, string> } | Response> {
+  const scopes = getBudgetScopes(env, key, key ? key.env : getClientEnv(request).env);
+  if (!scopes.length) return { budgets: [], headers: {} };
+
+  let statuses: BudgetStatus[];
+  try {
+    statuses = await getBudgetStatus(getBudgetStore(env), scopes);
+  } catch (err) {
+    // Fail open, like the rate limiter
+    console.error('Budget store error:', err);
+    return { budgets: scopes, headers: {} };
+  }
+
+  const headers = budgetHeaders(statuses);
+  const exceeded = statuses.find(s => s.exceeded);
+  if (exceeded) {
+    return rateLimitErrorResponse(
+      `Budget exceeded: ${exceeded.scope} ${exceeded.period} ${exceeded.metric} limit ${exceeded.limit}`,
+      headers,
+      corsHeaders
+    );
+  }
+  return { budgets: scopes, headers };
+}
+
+/**
+ * Charge a completed request's usage to its rate-limit bucket and budgets (best-effort)
+ */
+async function chargeUsage(ctx: RequestContext, env: Env, tokens: number, cost_usd: number): Promise<void> {
+  if (tokens <= 0) return;
+
+  try {
+    await ctx.rateLimit?.limiter.recordTokens(ctx.rateLimit.bucket, tokens);
+  } catch (err) {
+    console.error('Rate limiter error:', err);
+  }
+
+  if (!ctx.budgets.length) return;
+  try {
+    await chargeBudgets(getBudgetStore(env), ctx.budgets, { tokens, cost_usd });
+  } catch (err) {
+    console.error('Budget store error:', err);
+  }
+}
+
+// ============================================================================
+// Admin API
+// ============================================================================
+
+/** Per-isolate fallback store when KEYS_KV is not bound */
+const memoryAuditStore = new MemoryAuditStore();
+
+function getAuditStore(env: Env): AuditStore {
+  return env.KEYS_KV ? new KVAuditStore(env.KEYS_KV) : memoryAuditStore;
+}
+
+/**
+ * Record an admin mutation (never includes secrets) in the audit store. The write is
+ * best-effort so a storage failure does not fail the mutation after it happened.
+ */
+async function writeAuditEvent(env: Env, request: Request, event: Omit<AuditEvent, 'ts' | 'ip' | 'user_agent'>): Promise<void> {
+  const entry: AuditEvent = {
+    ts: Date.now(),
+    ...event,
+    ip: request.headers.get('cf-connecting-ip') || undefined,
+    user_agent: request.headers.get('user-agent') || undefined,
+  };
+  try {
+    await getAuditStore(env).append(entry);
+  } catch (err) {
+    console.error('Failed to write audit event:', JSON.stringify(entry), err);
+  }
+}
+
+/** ?cursor= and ?limit= of a paginated admin listing */
+function getPageOptions(url: URL): { cursor?: string; limit: number } {
+  return {
+    cursor: url.searchParams.get('cursor') || undefined,
+    limit: Math.min(Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+  };
+}
+
+async function readAdminJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new AIGatewayError('Invalid JSON body', { status: 400, code: AIGatewayErrorCode.INVALID_REQUEST });
+  }
+}
+
+/**
+ * Usage analytics per client/env/model from Analytics Engine (GET /admin/models)
+ */
+async function handleAdminModels(url: URL, env: Env, corsHeaders: HeadersInit): Promise<Response> {
+  // If AE not bound, return empty
+  if (!env.AE) {
+    return jsonResponse({ ok: true, data: [], note: 'AE binding not configured' }, corsHeaders);
+  }
+
+  // Optional filters
+  const qClient = url.searchParams.get('client');
+  const qEnv = url.searchParams.get('env');
+  const qModel = url.searchParams.get('model');
+  const qProvider = url.searchParams.get('provider');
+  const qAlias = url.searchParams.get('alias');
+  const sinceMs = Number(url.searchParams.get('since_ms') || '') || (Date.now() - 24 * 3600 * 1000);
+
+  const where: string[] = [`timestamp >= toDateTime(${sinceMs} / 1000)`];
+  if (qClient) where.push(`blob1 = '${qClient.replace(/'/g, "''")}'`);
+  if (qEnv) where.push(`blob2 = '${qEnv.replace(/'/g, "''")}'`);
+  if (qModel) {
+    // A trailing * matches a model family, e.g. model=claude-*
+    where.push(qModel.endsWith('*')
+      ? `blob4 LIKE '${qModel.slice(0, -1).replace(/'/g, "''")}%'`
+      : `blob4 = '${qModel.replace(/'/g, "''")}'`);
+  }
+  if (qProvider) where.push(`blob6 = '${qProvider.replace(/'/g, "''")}'`);
+  if (qAlias) where.push(`blob7 = '${qAlias.replace(/'/g, "''")}'`);
+
+  // blobs: 1 client, 2 env, 3 endpoint, 4 model, 5 model_source, 6 provider, 7 alias
+  // doubles: 1 tokens_in, 2 tokens_out, 3 latency_ms, 4 status, 5 ts, 6 ttft_ms, 7 cost_usd, 8 cached_tokens, 9 cache_hit
+  const query = `
+    SELECT
+      blob1 AS client,
+      blob2 AS env,
+      blob4 AS model,
+      blob6 AS provider,
+      SUM(_sample_interval) AS requests,
+      SUM(_sample_interval * double1) AS tokens_in,
+      SUM(_sample_interval * double2) AS tokens_out,
+      SUM(_sample_interval * (double1 + double2)) AS tokens_total,
+      SUM(_sample_interval * double8) AS cached_tokens,
+      SUM(_sample_interval * double7) AS cost_usd,
+      SUM(_sample_interval * double9) AS cache_hits,
+      SUM(_sample_interval * double4) AS status_sum,
+      AVG(double3) AS latency_avg,
+      SUM(IF(blob5 = 'override', _sample_interval, 0)) AS override_requests,
+      SUM(IF(blob5 = 'fallback', _sample_interval, 0)) AS fallback_requests
+    FROM edge_ai_gateway_usage
+    WHERE ${where.join(' AND ')}
+    GROUP BY client, env, model, provider
+    ORDER BY cost_usd DESC, tokens_total DESC
+    LIMIT 200
+  `;
+
+  // Query AE via SQL API (Worker runtime bindings don't support querying)
+  if (!env.CF_ACCOUNT_ID || !env.CF_API_TOKEN) {
+    return errorResponse('Missing CF_ACCOUNT_ID/CF_API_TOKEN for AE query', 500, corsHeaders);
+  }
+
+  const api = `https://api.cloudflare.com/client/v4/accounts/${env.CF_ACCOUNT_ID}/analytics_engine/sql`;
+  const qRes = await fetch(api, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${env.CF_API_TOKEN}`,
+    },
+    body: query,
+  });
+
+  if (!qRes.ok) {
+    const t = await qRes.text();
+    return errorResponse(`AE query failed: ${t}`, 500, corsHeaders);
+  }
+
+  const res = await qRes.json() as { data?: unknown };
+  return jsonResponse({ ok: true, since_ms: sinceMs, data: res.data || [] }, corsHeaders);
+}
+
+/**
+ * Route admin requests (authenticated with ADMIN_API_KEY):
+ * - GET /admin/models: usage analytics
+ * - GET|POST /admin/keys: list (?client=) or create keys
+ * - GET|PATCH /admin/keys/{id}: inspect or update a key's policy
+ * - POST /admin/keys/{id}/rotate | /revoke
+ * - GET /admin/config: effective gateway config (redacted)
+ * - GET /admin/providers: registered provider types, their schemas and capabilities
+ * - GET /admin/deployments: health of load-balanced deployments (this isolate)
+ * - GET /admin/budgets: usage and remaining budget per key/env (?scope=)
+ * - GET /admin/audit: recent admin mutations
+ *
+ * Key, budget and audit listings are paginated with ?limit= and the next_cursor of the
+ * previous page (?cursor=).
+ */
+async function handleAdmin(request: Request, url: URL, env: Env, corsHeaders: HeadersInit): Promise<Response> {
+  const method = request.method;
+  const path = url.pathname.replace(/\/+$/, '');
+
+  if (method === 'GET' && path === '/admin/models') {
+    return handleAdminModels(url, env, corsHeaders);
+  }
+
+  if (method === 'GET' && path === '/admin/config') {
+    // Effective config with credentials redacted ("$NAME" secret references are shown by name)
+    const config = getGatewayConfig(env);
+    return jsonResponse({ ok: true, source: env.GATEWAY_CONFIG ? 'GATEWAY_CONFIG' : 'env', config: redactConfig(config) }, corsHeaders);
+  }
+
+  if (method === 'GET' && path === '/admin/providers') {
+    // Provider types available to the config, and the configured providers using each
+    const configured = Object.entries(getGatewayConfig(env).providers);
+    const usedBy = (type: string) => configured.filter(([, entry]) => entry.type === type).map(([name]) => name);
+    const data = [
+      ...listProviders().map(p => ({
+        type: p.type,
+        description: p.description ?? null,
+        built_in: p.builtIn,
+        capabilities: p.capabilities,
+        models: p.models,
+        schema: p.schema,
+        configured: usedBy(p.type),
+      })),
+      ...WORKER_ROUTE_TYPES.map(p => ({ ...p, built_in: true, models: [], schema: null, configured: usedBy(p.type) })),
+    ];
+    return jsonResponse({ ok: true, data }, corsHeaders);
+  }
+
+  if (method === 'GET' && path === '/admin/deployments') {
+    // Health of load-balanced deployments as seen by this isolate (pools are created on first use)
+    const data = [...loadBalancers.entries()].map(([model, { provider }]) => ({ model, deployments: provider.getHealth() }));
+    return jsonResponse({ ok: true, data }, corsHeaders);
+  }
+
+  if (method === 'GET' && path === '/admin/budgets') {
+    // Every configured budget: virtual keys with a budget (one page of keys per request) and,
+    // on the first page, ENV_BUDGETS entries
+    const options = getPageOptions(url);
+    const page = await getKeyStore(env).list(options);
+    const keyScopes = page.items
+      .filter(k => k.budget && !k.disabled)
+      .map(k => ({ scope: `key:${k.id}`, budget: k.budget! }));
+    const envScopes = options.cursor
+      ? []
+      : Object.entries(getEnvBudgets(env)).map(([name, budget]) => ({ scope: `env:${name}`, budget }));
+    const qScope = url.searchParams.get('scope');
+    const scopes = [...keyScopes, ...envScopes].filter(s => !qScope || s.scope === qScope);
+    return jsonResponse({ ok: true, data: await getBudgetStatus(getBudgetStore(env), scopes), next_cursor: page.cursor ?? null }, corsHeaders);
+  }
+
+  if (method === 'GET' && path === '/admin/audit') {
+    const page = await getAuditStore(env).list(getPageOptions(url));
+    return jsonResponse({ ok: true, data: page.items, next_cursor: page.cursor ?? null }, corsHeaders);
+  }
+
+  const store = getKeyStore(env);
+
+  if (path === '/admin/keys') {
+    if (method === 'GET') {
+      // The client filter applies within the page, so a page may hold fewer than ?limit= keys
+      const qClient = url.searchParams.get('client');
+      const page = await store.list(getPageOptions(url));
+      const keys = page.items.filter(k => !qClient || k.client === qClient);
+      return jsonResponse({ ok: true, data: keys.map(toPublicKey), next_cursor: page.cursor ?? null }, corsHeaders);
+    }
+    if (method === 'POST') {
+      const policy = parseKeyPolicy(await readAdminJson(request), false) as KeyPolicy;
+      const { key, secret } = await createVirtualKey(policy);
+      await store.put(key);
+      await writeAuditEvent(env, request, { action: 'key.create', target: key.id, client: key.client, changes: { ...policy } });
+      // The secret is only ever returned here
+      return jsonResponse({ ok: true, key: secret, data: toPublicKey(key) }, corsHeaders);
+    }
+    return errorResponse('Method not allowed', 405, corsHeaders);
+  }
+
+  const match = path.match(/^\/admin\/keys\/([^/]+)(?:\/(rotate|revoke))?$/);
+  if (!match) {
+    return errorResponse('Not found', 404, corsHeaders);
+  }
+
+  const [, id, action] = match;
+  const existing = await store.get(id);
+  if (!existing) {
+    return errorResponse(`Key '${id}' not found`, 404, corsHeaders);
+  }
+
+  if (!action && method === 'GET') {
+    return jsonResponse({ ok: true, data: toPublicKey(existing) }, corsHeaders);
+  }
+
+  if (!action && method === 'PATCH') {
+    const changes = parseKeyPolicy(await readAdminJson(request), true);
+    const updated: VirtualKey = { ...existing, ...changes };
+    await store.put(updated);
+    await writeAuditEvent(env, request, { action: 'key.update', target: id, client: updated.client, changes: { ...changes } });
+    return jsonResponse({ ok: true, data: toPublicKey(updated) }, corsHeaders);
+  }
+
+  if (action === 'rotate' && method === 'POST') {
+    const { key, secret } = await rotateVirtualKey(existing);
+    await store.put(key, existing.hash);
+    await writeAuditEvent(env, request, { action: 'key.rotate', target: id, client: key.client });
+    return jsonResponse({ ok: true, key: secret, data: toPublicKey(key) }, corsHeaders);
+  }
+
+  if (action === 'revoke' && method === 'POST') {
+    // Revoked keys are kept (disabled) so they stay inspectable
+    const revoked: VirtualKey = { ...existing, disabled: true, revoked_at: Date.now() };
+    await store.put(revoked);
+    await writeAuditEvent(env, request, { action: 'key.revoke', target: id, client: revoked.client });
+    return jsonResponse({ ok: true, data: toPublicKey(revoked) }, corsHeaders);
+  }
+
+  return errorResponse('Method not allowed', 405, corsHeaders);
 }
 
 // ============================================================================
@@ -1365,7 +2522,7 @@ function isAuthenticated(request: Request, url: URL, env: Env): boolean {
 // ============================================================================
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, executionCtx: ExecutionContext): Promise<Response> {
     const origin = request.headers.get('Origin');
     const corsHeaders = getCorsHeaders(origin, env.ALLOWED_ORIGINS);
     const url = new URL(request.url);
@@ -1375,102 +2532,85 @@ export default {
       return new Response(null, { headers: corsHeaders });
     }
 
-    // Admin endpoints
-    if (request.method === 'GET' && url.pathname === '/admin/models') {
-      // Reuse CLIENT_API_KEY as admin auth
-      if (env.CLIENT_API_KEY) {
-        const auth = request.headers.get('Authorization');
-        if (auth !== `Bearer ${env.CLIENT_API_KEY}`) {
-          return errorResponse('Unauthorized', 401, corsHeaders);
-        }
+    // Admin endpoints (separate ADMIN_API_KEY credential)
+    if (url.pathname.startsWith('/admin/')) {
+      if (!env.ADMIN_API_KEY) {
+        return errorResponse('Admin API is disabled: ADMIN_API_KEY is not set', 403, corsHeaders);
       }
-
-      // If AE not bound, return empty
-      if (!env.AE) {
-        return jsonResponse({ ok: true, data: [], note: 'AE binding not configured' }, corsHeaders);
+      if (!await timingSafeEqual(request.headers.get('Authorization') ?? '', `Bearer ${env.ADMIN_API_KEY}`)) {
+        return errorResponse('Unauthorized', 401, corsHeaders);
       }
-
-      // Optional filters
-      const qClient = url.searchParams.get('client');
-      const qEnv = url.searchParams.get('env');
-      const qModel = url.searchParams.get('model');
-      const sinceMs = Number(url.searchParams.get('since_ms') || '') || (Date.now() - 24 * 3600 * 1000);
-
-      const where: string[] = [`timestamp >= toDateTime(${sinceMs} / 1000)`];
-      if (qClient) where.push(`blob1 = '${qClient.replace(/'/g, "''")}'`);
-      if (qEnv) where.push(`blob2 = '${qEnv.replace(/'/g, "''")}'`);
-      if (qModel) where.push(`blob4 = '${qModel.replace(/'/g, "''")}'`);
-
-      // blobs: 1 client, 2 env, 3 endpoint, 4 model, 5 model_source
-      // doubles: 1 tokens_in, 2 tokens_out, 3 latency_ms, 4 status, 5 ts
-      const query = `
-        SELECT
-          blob1 AS client,
-          blob2 AS env,
-          blob4 AS model,
-          SUM(_sample_interval) AS requests,
-          SUM(_sample_interval * double1) AS tokens_in,
-          SUM(_sample_interval * double2) AS tokens_out,
-          SUM(_sample_interval * (double1 + double2)) AS tokens_total,
-          SUM(_sample_interval * double4) AS status_sum,
-          AVG(double3) AS latency_avg,
-          SUM(_sample_interval) AS override_requests,
-          SUM(_sample_interval) AS fallback_requests
-        FROM edge_ai_gateway_usage
-        WHERE ${where.join(' AND ')}
-        GROUP BY client, env, model
-        ORDER BY tokens_total DESC
-        LIMIT 200
-      `;
-
-      // Query AE via SQL API (Worker runtime bindings don't support querying)
-      if (!env.CF_ACCOUNT_ID || !env.CF_API_TOKEN) {
-        return errorResponse('Missing CF_ACCOUNT_ID/CF_API_TOKEN for AE query', 500, corsHeaders);
-      }
-
-      const api = `https://api.cloudflare.com/client/v4/accounts/${env.CF_ACCOUNT_ID}/analytics_engine/sql`;
-      const qRes = await fetch(api, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${env.CF_API_TOKEN}`,
-        },
-        body: query,
-      });
-
-      if (!qRes.ok) {
-        const t = await qRes.text();
-        return errorResponse(`AE query failed: ${t}`, 500, corsHeaders);
+      try {
+        return await handleAdmin(request, url, env, corsHeaders);
+      } catch (error) {
+        if (error instanceof AIGatewayError) {
+          return errorResponse(error.message, error.status, corsHeaders);
+        }
+        console.error('Admin error:', error);
+        return errorResponse(error instanceof Error ? error.message : 'Internal server error', 500, corsHeaders);
       }
-
-      const res = await qRes.json() as { data?: unknown };
-      return jsonResponse({ ok: true, since_ms: sinceMs, data: res.data || [] }, corsHeaders);
     }
 
-    // Only accept POST requests (non-admin)
-    if (request.method !== 'POST') {
+    // Only accept GET /v1/models and POST requests (non-admin)
+    const isModelsRequest = request.method === 'GET' && /^(\/v1)?\/models(\/|$)/.test(url.pathname);
+    if (request.method !== 'POST' && !isModelsRequest) {
       return errorResponse('Method not allowed', 405, corsHeaders);
     }
 
-    // Check authentication
-    if (!isAuthenticated(request, url, env)) {
-      return errorResponse('Unauthorized', 401, corsHeaders);
-    }
-
     try {
+      // An invalid gateway config fails every request with its validation errors
+      getGatewayConfig(env);
+
+      // Check authentication; a virtual key carries the client identity and its policy
+      const key = await authenticate(request, url, env);
+
+      if (isModelsRequest) {
+        return handleModels(url, env, corsHeaders, key);
+      }
+
       // Route based on path
       const path = url.pathname;
-      
-      if (path === '/v1/audio/speech' || path.endsWith('/audio/speech')) {
-        return handleTTS(request, env, corsHeaders);
+      if (!isEndpointAllowed(key, getKeyEndpoint(path))) {
+        return errorResponse(`API key is not allowed to call ${path}`, 403, corsHeaders);
+      }
+
+      // Budgets cover token-consuming endpoints (not speech). They are checked first so a
+      // request over budget does not use up a rate limit slot.
+      const isSpeech = path === '/v1/audio/speech' || path.endsWith('/audio/speech');
+      const budgeted = isSpeech ? { budgets: [], headers: {} } : await applyBudgets(request, env, key, corsHeaders);
+      if (budgeted instanceof Response) return budgeted;
+
+      const limited = await applyRateLimit(request, env, key, corsHeaders);
+      if (limited instanceof Response) return limited;
+      const ctx: RequestContext = {
+        key,
+        rateLimit: limited.rateLimit,
+        budgets: budgeted.budgets,
+        cache: getCacheOptions(request, Number(env.CACHE_TTL_SECONDS) || 3600),
+        waitUntil: promise => executionCtx.waitUntil(promise),
+      };
+
+      let response: Response;
+      if (isSpeech) {
+        response = await handleTTS(request, env, corsHeaders, ctx);
+      } else if (path === '/v1/embeddings' || path.endsWith('/embeddings')) {
+        response = await handleEmbeddings(request, env, corsHeaders, ctx);
+      } else if (path === '/v1/messages' || path.endsWith('/messages')) {
+        response = await handleMessages(request, env, corsHeaders, ctx);
+      } else if (path === '/v1/responses' || path.endsWith('/responses')) {
+        response = await handleResponses(request, env, corsHeaders, ctx);
+      } else {
+        // Default: chat completion
+        response = await handleChat(request, env, corsHeaders, ctx);
       }
 
-      if (path === '/v1/embeddings' || path.endsWith('/embeddings')) {
-        return handleEmbeddings(request, env, corsHeaders);
+      for (const [name, value] of Object.entries({ ...limited.headers, ...budgeted.headers })) {
+        response.headers.set(name, value);
       }
+      if (ctx.cache?.status) response.headers.set('x-cache', ctx.cache.status);
+      if (ctx.cache?.similarity !== undefined) response.headers.set('x-cache-similarity', ctx.cache.similarity.toFixed(4));
+      return response;
 
-      // Default: chat completion
-      return handleChat(request, env, corsHeaders);
-      
     } catch (error) {
       console.error('Worker error:', error);
 